@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Headless balance report: `npm run balance`
+//
+// The autopilot plays every campaign level from a fresh world (six cities,
+// full batteries, no upgrades) on several seeds and reports, per level, how
+// often it won, how many cities it lost and how much ammo it had left. A level
+// the bot can't reliably clear, or clears with almost nothing in the racks, is
+// worth a look in src/data/waves.json.
+//
+//   --seeds <n>         seeds per level (default 5)
+//   --difficulty <id>   easy | normal | hard | nightmare (default normal)
+//   --cooldown <ticks>  shortest gap between the bot's shots (default 10)
+//   --json <file>       also write the rows as JSON
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { DifficultyId, GAME_CONFIG } from '../src/types';
+import { createLevelState, FIXED_STEP_MS, step } from '../src/game/engine';
+import { createAutopilot } from '../src/game/autopilot';
+import { DIFFICULTIES } from '../src/game/difficulty';
+import { deriveSeed } from '../src/game/rng';
+import { getLevelWaves } from '../src/game/waves';
+
+const MAX_TICKS = GAME_CONFIG.TICKS_PER_SECOND * GAME_CONFIG.LEVEL_DURATION_SEC * 10;
+
+const { values } = parseArgs({
+  options: {
+    seeds: { type: 'string', default: '5' },
+    difficulty: { type: 'string', default: 'normal' },
+    cooldown: { type: 'string', default: '10' },
+    json: { type: 'string' },
+  },
+});
+const seeds = Number(values.seeds);
+const cooldownTicks = Number(values.cooldown);
+const difficulty = values.difficulty as DifficultyId;
+if (!Number.isInteger(seeds) || seeds < 1) throw new Error(`--seeds must be a positive integer, got ${values.seeds}`);
+if (!Number.isFinite(cooldownTicks) || cooldownTicks < 0) throw new Error(`--cooldown must be a number of ticks, got ${values.cooldown}`);
+if (!Object.hasOwn(DIFFICULTIES, difficulty)) throw new Error(`Unknown difficulty ${difficulty}`);
+
+interface LevelRow {
+  level: number;
+  winRate: number; // 0-1
+  citiesLost: number; // mean per attempt
+  ammoLeft: number; // mean interceptors left at the end
+  ammoLeftShare: number; // ammoLeft over the starting ammo
+}
+
+const playLevel = (level: number, seed: number) => {
+  const state = createLevelState({
+    level,
+    width: GAME_CONFIG.WORLD_WIDTH,
+    height: GAME_CONFIG.WORLD_HEIGHT,
+    seed,
+    waves: getLevelWaves(level),
+    difficulty,
+  });
+  const bot = createAutopilot({ cooldownTicks });
+  const startAmmo = state.batteries.reduce((sum, b) => sum + b.ammo, 0);
+  while (state.outcome === 'playing' && state.tick < MAX_TICKS) {
+    step(state, FIXED_STEP_MS, { fire: bot.decide(state) });
+  }
+  return {
+    won: state.outcome === 'levelComplete',
+    citiesLost: state.cities.filter(c => c.isDestroyed).length,
+    ammoLeft: state.batteries.reduce((sum, b) => sum + b.ammo, 0),
+    startAmmo,
+  };
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const started = performance.now();
+const rows: LevelRow[] = [];
+for (let level = 1; level <= GAME_CONFIG.TOTAL_LEVELS; level++) {
+  const runs = Array.from({ length: seeds }, (_, n) => playLevel(level, deriveSeed(0, 'balance', level, n)));
+  const ammoLeft = mean(runs.map(r => r.ammoLeft));
+  rows.push({
+    level,
+    winRate: mean(runs.map(r => (r.won ? 1 : 0))),
+    citiesLost: mean(runs.map(r => r.citiesLost)),
+    ammoLeft,
+    ammoLeftShare: ammoLeft / mean(runs.map(r => r.startAmmo)),
+  });
+}
+
+const pad = (value: string | number, width: number) => String(value).padStart(width);
+console.log(`Autopilot balance report: ${difficulty}, ${seeds} seeds per level, ${cooldownTicks}-tick cooldown`);
+console.log(`${pad('level', 5)} ${pad('win', 5)} ${pad('cities lost', 11)} ${pad('ammo left', 14)}`);
+rows.forEach(r => {
+  const flag = r.winRate < 1 ? '  <' : '';
+  console.log(
+    `${pad(r.level, 5)} ${pad(`${Math.round(r.winRate * 100)}%`, 5)} ${pad(r.citiesLost.toFixed(1), 11)} ${pad(`${r.ammoLeft.toFixed(0)} (${Math.round(r.ammoLeftShare * 100)}%)`, 14)}${flag}`,
+  );
+});
+const unbeaten = rows.filter(r => r.winRate < 1).map(r => r.level);
+console.log(`Won every attempt on ${rows.length - unbeaten.length} of ${rows.length} levels${unbeaten.length ? `; dropped attempts on ${unbeaten.join(', ')}` : ''}`);
+console.log(`Finished in ${((performance.now() - started) / 1000).toFixed(1)}s`);
+
+if (values.json) {
+  writeFileSync(values.json, `${JSON.stringify({ difficulty, seeds, cooldownTicks, levels: rows }, null, 2)}\n`);
+  console.log(`Wrote ${values.json}`);
+}
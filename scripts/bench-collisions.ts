@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Reproducible collision benchmark: `npm run bench`
+//
+// Plays level 100 with a fixed seed and a scripted gunner that keeps firing at
+// the lowest rocket, once as scripted and once with all of its rockets launched
+// together, which is where the grid pays off. After every tick the live
+// rockets, interceptors and blasts are checked and timed two ways:
+//   brute force - every pair, Math.sqrt distance (the old engine loop)
+//   grid        - rebuild the spatial grid, query nearby cells, squared distance
+// Both passes must report the same hits, so the numbers compare equal work.
+
+import { GAME_CONFIG, GameState, Rocket } from '../src/types';
+import { createLevelState, FIXED_STEP_MS, GRID_CELL_SIZE, step } from '../src/game/engine';
+import { ROCKET_KINDS } from '../src/game/rocketKinds';
+import { createSpatialGrid } from '../src/game/spatialGrid';
+
+const SEED = 20240601;
+const LEVEL = GAME_CONFIG.TOTAL_LEVELS;
+const FIRE_EVERY_TICKS = 4;
+const REPEAT = 20; // passes per snapshot, for timer resolution
+
+const fuseRange = (state: GameState, r: Rocket) => state.config.ROCKET_BASE_RADIUS * 3 * ROCKET_KINDS[r.kind].radiusScale;
+const maxRadiusScale = Math.max(...Object.values(ROCKET_KINDS).map(k => k.radiusScale));
+
+const bruteForce = (state: GameState) => {
+  let hits = 0;
+  state.interceptors.forEach(i => {
+    state.rockets.forEach(r => {
+      if (Math.sqrt(Math.pow(r.x - i.x, 2) + Math.pow(r.y - i.y, 2)) < fuseRange(state, r)) hits++;
+    });
+  });
+  state.explosions.forEach(e => {
+    state.rockets.forEach(r => {
+      if (Math.sqrt(Math.pow(r.x - e.x, 2) + Math.pow(r.y - e.y, 2)) < e.radius) hits++;
+    });
+  });
+  return hits;
+};
+
+const grid = createSpatialGrid<Rocket>(GRID_CELL_SIZE);
+const withGrid = (state: GameState) => {
+  let hits = 0;
+  grid.reset(state.width, state.height);
+  state.rockets.forEach(r => grid.insert(r));
+  const fuse = state.config.ROCKET_BASE_RADIUS * 3;
+  state.interceptors.forEach(i => {
+    grid.forEachNear(i.x, i.y, fuse * maxRadiusScale, r => {
+      const dx = r.x - i.x;
+      const dy = r.y - i.y;
+      const range = fuseRange(state, r);
+      if (dx * dx + dy * dy < range * range) hits++;
+    });
+  });
+  state.explosions.forEach(e => {
+    if (e.radius <= 0) return;
+    grid.forEachNear(e.x, e.y, e.radius, r => {
+      const dx = r.x - e.x;
+      const dy = r.y - e.y;
+      if (dx * dx + dy * dy < e.radius * e.radius) hits++;
+    });
+  });
+  return hits;
+};
+
+const time = (fn: () => void) => {
+  const start = performance.now();
+  for (let n = 0; n < REPEAT; n++) fn();
+  return (performance.now() - start) / REPEAT;
+};
+
+interface Scenario {
+  name: string;
+  prepare: (state: GameState) => void;
+}
+
+const SCENARIOS: Scenario[] = [
+  // Level 100 as played: rockets trickle in over the full minute
+  { name: 'campaign', prepare: () => {} },
+  {
+    // Launch the whole wave on the first tick: LEVEL_100_ROCKETS on screen at
+    // once, met by the gunner's tripled collision blasts, the worst case
+    name: 'saturation',
+    prepare: state => {
+      state.spawnQueue.forEach(spawn => {
+        spawn.tick = 0;
+      });
+    },
+  },
+];
+
+const run = ({ name, prepare }: Scenario) => {
+  const state = createLevelState({
+    level: LEVEL,
+    width: GAME_CONFIG.WORLD_WIDTH,
+    height: GAME_CONFIG.WORLD_HEIGHT,
+    seed: SEED,
+    upgrades: { ammo: 5, blastRadius: 5 },
+  });
+  prepare(state);
+  const startTick = state.tick;
+
+  let bruteMs = 0;
+  let gridMs = 0;
+  let tickMs = 0;
+  let peakRockets = 0;
+  let peakBlasts = 0;
+  let totalHits = 0;
+
+  while (state.outcome === 'playing') {
+    const lowest = state.tick % FIRE_EVERY_TICKS === 0
+      ? state.rockets.reduce<Rocket | undefined>((a, r) => (!a || r.y > a.y ? r : a), undefined)
+      : undefined;
+    const start = performance.now();
+    // One fixed step per call; firing goes through the normal ammo and battery rules
+    step(state, FIXED_STEP_MS, { fire: lowest ? [{ x: lowest.x, y: lowest.y }] : [] });
+    tickMs += performance.now() - start;
+
+    let bruteHits = 0;
+    let gridHits = 0;
+    bruteMs += time(() => (bruteHits = bruteForce(state)));
+    gridMs += time(() => (gridHits = withGrid(state)));
+    if (bruteHits !== gridHits) {
+      throw new Error(`${name}: hit mismatch at tick ${state.tick}, brute ${bruteHits}, grid ${gridHits}`);
+    }
+    totalHits += gridHits;
+    peakRockets = Math.max(peakRockets, state.rockets.length);
+    peakBlasts = Math.max(peakBlasts, state.explosions.length + state.interceptors.length);
+  }
+
+  const ticks = state.tick - startTick;
+  const perTick = (ms: number) => ((ms / ticks) * 1000).toFixed(1);
+  console.log(`[${name}] level ${LEVEL}, seed ${SEED}: ${ticks} ticks, outcome ${state.outcome}`);
+  console.log(`  peak rockets ${peakRockets}, peak blasts + interceptors ${peakBlasts}, hits ${totalHits}`);
+  console.log(`  brute force : ${perTick(bruteMs)} µs/tick`);
+  console.log(`  spatial grid: ${perTick(gridMs)} µs/tick (${(bruteMs / gridMs).toFixed(2)}x)`);
+  console.log(`  full engine tick with grid: ${perTick(tickMs)} µs/tick`);
+};
+
+SCENARIOS.forEach(run);
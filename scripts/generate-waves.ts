@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Fill in src/data/waves.json: `npm run waves`
+//
+// Levels already in the file are kept as written, so hand-authored set pieces
+// survive; every missing level gets the generator's version of the classic
+// difficulty curve. Delete a level from the file to regenerate it. The result
+// is validated before anything is written.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { GAME_CONFIG, WaveEntry } from '../src/types';
+import { generateWaves, parseWaveScript, WAVE_SCRIPT_VERSION } from '../src/game/waves';
+
+const file = fileURLToPath(new URL('../src/data/waves.json', import.meta.url));
+const existing = parseWaveScript(JSON.parse(readFileSync(file, 'utf8')));
+
+const levels: Record<string, WaveEntry[]> = {};
+let generated = 0;
+for (let level = 1; level <= GAME_CONFIG.TOTAL_LEVELS; level++) {
+  const authored = existing.levels[level];
+  if (!authored) generated++;
+  // Round generated timings so the file stays readable
+  levels[level] = authored ?? generateWaves(level).map(w => ({ ...w, interval: Math.round(w.interval! * 1000) / 1000 }));
+}
+parseWaveScript({ version: WAVE_SCRIPT_VERSION, levels });
+
+// One entry per line keeps a 100-level file reviewable in diffs
+const body = Object.entries(levels)
+  .map(([level, entries]) => `    "${level}": [\n${entries.map(e => `      ${JSON.stringify(e)}`).join(',\n')}\n    ]`)
+  .join(',\n');
+writeFileSync(file, `{\n  "version": ${WAVE_SCRIPT_VERSION},\n  "levels": {\n${body}\n  }\n}\n`);
+console.log(`Wrote ${Object.keys(levels).length} levels (${generated} generated) to ${file}`);
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+
+// Append-only. Each entry moves the schema forward by one version, tracked in
+// SQLite's `user_version` pragma. Never edit a migration that has shipped.
+const migrations: string[] = [
+  `
+  CREATE TABLE runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    player_name TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    level_reached INTEGER NOT NULL,
+    duration_sec INTEGER NOT NULL,
+    game_version TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  );
+  CREATE INDEX idx_runs_score ON runs (score DESC);
+  CREATE INDEX idx_runs_level ON runs (level_reached, score DESC);
+  CREATE INDEX idx_runs_player ON runs (player_name COLLATE NOCASE, created_at DESC);
+  `,
+];
+
+export const migrate = (db: Database.Database) => {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (let version = current; version < migrations.length; version++) {
+    db.transaction(() => {
+      db.exec(migrations[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+};
+
+export const openDatabase = (file: string) => {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  migrate(db);
+  return db;
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+import { openDatabase } from './db';
+import { createLeaderboardRepo } from './leaderboard';
+import { createLeaderboardRouter } from './routes';
+
+const PORT = Number(process.env.LEADERBOARD_PORT ?? 8787);
+const DB_FILE = process.env.LEADERBOARD_DB ?? path.resolve('leaderboard.db');
+const CORS_ORIGIN = process.env.LEADERBOARD_CORS_ORIGIN ?? '*';
+const DIST_DIR = path.resolve('dist');
+
+const db = openDatabase(DB_FILE);
+const app = express();
+
+app.use(express.json({ limit: '16kb' }));
+app.use('/api', (req, res, next) => {
+  res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+});
+app.use('/api', createLeaderboardRouter(createLeaderboardRepo(db)));
+
+// Serve the built game too, so one process hosts everything
+if (fs.existsSync(DIST_DIR)) {
+  app.use(express.static(DIST_DIR));
+  app.get('*', (_req, res) => res.sendFile(path.join(DIST_DIR, 'index.html')));
+}
+
+const server = app.listen(PORT, () => {
+  console.log(`Leaderboard listening on http://localhost:${PORT} (db: ${DB_FILE})`);
+});
+
+const shutdown = () => {
+  server.close(() => {
+    db.close();
+    process.exit(0);
+  });
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { LeaderboardEntry, RunSubmission } from '../src/types';
+
+interface RunRow {
+  id: number;
+  player_name: string;
+  score: number;
+  level_reached: number;
+  duration_sec: number;
+  game_version: string;
+  created_at: string;
+}
+
+const toEntry = (row: RunRow): LeaderboardEntry => ({
+  id: row.id,
+  name: row.player_name,
+  score: row.score,
+  levelReached: row.level_reached,
+  durationSec: row.duration_sec,
+  gameVersion: row.game_version,
+  createdAt: row.created_at,
+});
+
+export const createLeaderboardRepo = (db: Database.Database) => {
+  const insert = db.prepare(
+    `INSERT INTO runs (player_name, score, level_reached, duration_sec, game_version)
+     VALUES (@name, @score, @levelReached, @durationSec, @gameVersion)`,
+  );
+  const rank = db.prepare(`SELECT COUNT(*) + 1 AS rank FROM runs WHERE score > ?`);
+  const top = db.prepare(`SELECT * FROM runs ORDER BY score DESC, created_at ASC LIMIT ?`);
+  const topForLevel = db.prepare(
+    `SELECT * FROM runs WHERE level_reached = ? ORDER BY score DESC, created_at ASC LIMIT ?`,
+  );
+  const history = db.prepare(
+    `SELECT * FROM runs WHERE player_name = ? COLLATE NOCASE ORDER BY created_at DESC, id DESC LIMIT ?`,
+  );
+
+  return {
+    submitRun(run: RunSubmission) {
+      const { lastInsertRowid } = insert.run(run);
+      const { rank: position } = rank.get(run.score) as { rank: number };
+      return { id: Number(lastInsertRowid), rank: position };
+    },
+    topRuns(limit: number) {
+      return (top.all(limit) as RunRow[]).map(toEntry);
+    },
+    topRunsForLevel(level: number, limit: number) {
+      return (topForLevel.all(level, limit) as RunRow[]).map(toEntry);
+    },
+    playerHistory(name: string, limit: number) {
+      return (history.all(name, limit) as RunRow[]).map(toEntry);
+    },
+  };
+};
+
+export type LeaderboardRepo = ReturnType<typeof createLeaderboardRepo>;
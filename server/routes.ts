@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { GAME_CONFIG, RunSubmission } from '../src/types';
+import { LeaderboardRepo } from './leaderboard';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+const MAX_NAME_LENGTH = 24;
+
+const isInt = (v: unknown, min: number, max: number): v is number =>
+  Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+
+const parseLimit = (raw: unknown) => {
+  const n = Number(raw ?? DEFAULT_LIMIT);
+  return Number.isInteger(n) && n > 0 ? Math.min(n, MAX_LIMIT) : DEFAULT_LIMIT;
+};
+
+type ParsedRun = { run: RunSubmission; error?: undefined } | { run?: undefined; error: string };
+
+// The submitted run, trimmed, or the first problem with it
+const parseRun = (body: unknown): ParsedRun => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return { error: 'Body must be a JSON object' };
+  const { name, score, levelReached, durationSec, gameVersion } = body as Record<string, unknown>;
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (trimmed.length === 0 || trimmed.length > MAX_NAME_LENGTH) return { error: `name must be 1-${MAX_NAME_LENGTH} characters` };
+  if (!isInt(score, 0, Number.MAX_SAFE_INTEGER)) return { error: 'score must be a non-negative integer' };
+  if (!isInt(levelReached, 1, GAME_CONFIG.TOTAL_LEVELS)) return { error: `levelReached must be 1-${GAME_CONFIG.TOTAL_LEVELS}` };
+  if (!isInt(durationSec, 0, 60 * 60 * 24)) return { error: 'durationSec must be a non-negative integer' };
+  if (typeof gameVersion !== 'string' || gameVersion.length === 0 || gameVersion.length > 32) {
+    return { error: 'gameVersion is required' };
+  }
+  return { run: { name: trimmed, score, levelReached, durationSec, gameVersion } };
+};
+
+export const createLeaderboardRouter = (repo: LeaderboardRepo) => {
+  const router = Router();
+
+  router.post('/runs', (req, res) => {
+    const { run, error } = parseRun(req.body);
+    if (error !== undefined) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.status(201).json(repo.submitRun(run));
+  });
+
+  router.get('/leaderboard', (req, res) => {
+    res.json(repo.topRuns(parseLimit(req.query.limit)));
+  });
+
+  router.get('/leaderboard/levels/:level', (req, res) => {
+    const level = Number(req.params.level);
+    if (!isInt(level, 1, GAME_CONFIG.TOTAL_LEVELS)) {
+      res.status(400).json({ error: `level must be 1-${GAME_CONFIG.TOTAL_LEVELS}` });
+      return;
+    }
+    res.json(repo.topRunsForLevel(level, parseLimit(req.query.limit)));
+  });
+
+  router.get('/players/:name/runs', (req, res) => {
+    res.json(repo.playerHistory(req.params.name, parseLimit(req.query.limit)));
+  });
+
+  return router;
+};
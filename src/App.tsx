@@ -3,72 +3,75 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Shield, Target, Trophy, RotateCcw, Play, Languages, Volume2 } from 'lucide-react';
+import { Building2, Shield, Target, Trophy, RotateCcw, Play, Languages, Volume2, VolumeX, Download, Film, Pause, LogOut, FastForward, ListOrdered, Crosshair, Infinity as InfinityIcon, CalendarDays, Accessibility, History, Users } from 'lucide-react';
 import { 
   GameStatus, 
-  Rocket, 
-  Interceptor, 
-  Explosion, 
   Battery, 
   City, 
-  GAME_CONFIG 
+  DifficultyId,
+  DirectorState,
+  FireCommand,
+  FIRE_MODES,
+  GameEvent,
+  GameInputs,
+  GameMode,
+  GameState,
+  LaunchCommand,
+  PlayerMode,
+  Rocket,
+  GAME_CONFIG,
+  GAME_VERSION,
+  LevelSetup,
+  LevelStats,
+  LevelTally
 } from './types';
+import { carryOverWorld, createLevelState, getBatteryOwner, getElapsedSeconds, getTimeLeft, resolveBattery, step } from './game/engine';
+import { applyPurchase, ArmoryItem, Loadout } from './game/upgrades';
+import { createRng, createSeed, deriveSeed } from './game/rng';
+import { getLevelWaves } from './game/waves';
+import { DIFFICULTIES } from './game/difficulty';
+import { createAutopilot } from './game/autopilot';
+import { createReplayPlayer, createReplayRecorder, parseReplay, ReplayFile, ReplayRecorder } from './game/replay';
+import { getStars, loadProgress, recordLevelResult, saveProgress } from './progress';
+import { loadSettings, saveSettings } from './settings';
+import { clearSavedRun, loadSavedRun, SavedRun, saveRun } from './savegame';
+import { createTranslator, detectLocale, LOCALES, nextLocale } from './i18n';
+import {
+  getDailyDate,
+  getDailySeed,
+  hasPlayedDaily,
+  loadModeRecords,
+  recordDailyScore,
+  recordEndlessRun,
+  saveModeRecords,
+  startDailyAttempt,
+} from './modes';
+import { createInputController, InputCommand, InputController } from './input';
+import { createSoundManager } from './audio';
+import { createLayer } from './layers';
+import { createParticleSystem } from './particles';
+import { Palette, PALETTES, useReducedMotion } from './accessibility';
+import { BilingualText, createDefaultNarrator, getNewKinds, pickLanguage } from './narrative';
+import { copyPlayerResults, createPlayerResults, cycleAttackTarget, PlayerResult, recordPlayerEvents, resolveAttackTarget } from './players';
+import { applyViewport, clientToWorld, measureViewport, setScreenTransform, setWorldTransform, Viewport } from './viewport';
+import LevelSelect from './components/LevelSelect';
+import LeaderboardPanel from './components/LeaderboardPanel';
+import SubmitScore from './components/SubmitScore';
+import Armory from './components/Armory';
+import LevelSummary from './components/LevelSummary';
+import VolumeControls from './components/VolumeControls';
+import AccessibilityControls from './components/AccessibilityControls';
+import Choice from './components/Choice';
+import Transmission from './components/Transmission';
+import PlayerResults from './components/PlayerResults';
 
-// Audio Synthesis for Explosion
-const playExplosionSound = (audioCtx: AudioContext | null) => {
-  if (!audioCtx) return;
-  const duration = 0.5;
-  const sampleRate = audioCtx.sampleRate;
-  const bufferSize = sampleRate * duration;
-  const buffer = audioCtx.createBuffer(1, bufferSize, sampleRate);
-  const data = buffer.getChannelData(0);
-
-  for (let i = 0; i < bufferSize; i++) {
-    data[i] = (Math.random() * 2 - 1) * (1 - i / bufferSize);
-  }
-
-  const noise = audioCtx.createBufferSource();
-  noise.buffer = buffer;
-
-  const filter = audioCtx.createBiquadFilter();
-  filter.type = 'lowpass';
-  filter.frequency.setValueAtTime(1000, audioCtx.currentTime);
-  filter.frequency.exponentialRampToValueAtTime(40, audioCtx.currentTime + duration);
-
-  const gain = audioCtx.createGain();
-  gain.gain.setValueAtTime(0.3, audioCtx.currentTime);
-  gain.gain.exponentialRampToValueAtTime(0.01, audioCtx.currentTime + duration);
-
-  noise.connect(filter);
-  filter.connect(gain);
-  gain.connect(audioCtx.destination);
-
-  noise.start();
-  noise.stop(audioCtx.currentTime + duration);
-};
-
-const INITIAL_BATTERIES = (width: number, height: number): Battery[] => [
-  { id: 'b-left', x: 80, y: height - 40, ammo: 20, maxAmmo: 20, health: GAME_CONFIG.BATTERY_MAX_HEALTH, maxHealth: GAME_CONFIG.BATTERY_MAX_HEALTH, isDestroyed: false },
-  { id: 'b-mid', x: width / 2, y: height - 40, ammo: 40, maxAmmo: 40, health: GAME_CONFIG.BATTERY_MAX_HEALTH, maxHealth: GAME_CONFIG.BATTERY_MAX_HEALTH, isDestroyed: false },
-  { id: 'b-right', x: width - 80, y: height - 40, ammo: 20, maxAmmo: 20, health: GAME_CONFIG.BATTERY_MAX_HEALTH, maxHealth: GAME_CONFIG.BATTERY_MAX_HEALTH, isDestroyed: false },
-];
-
-const INITIAL_CITIES = (width: number, height: number): City[] => {
-  const spacing = (width - 300) / 7;
-  return Array.from({ length: 6 }).map((_, i) => ({
-    id: `city-${i}`,
-    x: 150 + (i < 3 ? i : i + 1) * spacing,
-    y: height - 20,
-    isDestroyed: false,
-  }));
-};
-
-const UFO = ({ size, top, left, delay }: { size: number, top: string, left: string, delay: number }) => (
+// `still` drops the drift and pulsing loops for players who asked for reduced motion
+const UFO = ({ size, top, left, delay, still }: { size: number, top: string, left: string, delay: number, still: boolean }) => (
   <motion.div
-    initial={{ x: -100, opacity: 0, scale: 0.8 }}
-    animate={{ 
+    initial={{ x: still ? 0 : -100, opacity: 0, scale: still ? 1 : 0.8 }}
+    animate={still ? { opacity: 1 } : { 
       x: [0, 30, -30, 0],
       y: [0, -15, 15, 0],
       rotate: [0, 2, -2, 0],
@@ -87,7 +90,7 @@ const UFO = ({ size, top, left, delay }: { size: number, top: string, left: stri
     <div style={{ width: size, height: size / 2.5 }} className="relative group">
       {/* Tractor Beam Glow */}
       <motion.div 
-        animate={{ opacity: [0.1, 0.3, 0.1], scale: [1, 1.1, 1] }}
+        animate={still ? { opacity: 0.2 } : { opacity: [0.1, 0.3, 0.1], scale: [1, 1.1, 1] }}
         transition={{ duration: 2, repeat: Infinity }}
         className="absolute top-[80%] left-1/2 -translate-x-1/2 w-[40%] h-[200%] bg-gradient-to-b from-emerald-500/40 to-transparent blur-xl"
       />
@@ -108,7 +111,7 @@ const UFO = ({ size, top, left, delay }: { size: number, top: string, left: stri
         {[1, 2, 3, 4, 5].map(i => (
           <motion.div
             key={i}
-            animate={{ 
+            animate={still ? { backgroundColor: '#10b981' } : { 
               backgroundColor: ['#10b981', '#34d399', '#10b981'],
               boxShadow: [
                 '0 0 5px rgba(16,185,129,0.5)',
@@ -125,205 +128,844 @@ const UFO = ({ size, top, left, delay }: { size: number, top: string, left: stri
   </motion.div>
 );
 
+const FLOATER_MS = 1000;
+const BRIEFING_MS = 12000; // how long a briefing stays up once its text arrives
+// Attract mode: campaign levels the autopilot demos behind the start screen
+const ATTRACT_LEVELS = [4, 12, 22, 35, 60, 87];
+const ATTRACT_PAUSE_MS = 2000; // hold on a finished demo before the next
+const SAVE_INTERVAL_MS = 5000; // how often a level in progress is saved
+const SILHOUETTE_MAX_HEIGHT = 200;
+
+// Cosmetic effects. The low quality setting caps the pool and thins emission.
+const PARTICLE_CAPACITY = 1500;
+const LOW_QUALITY_PARTICLES = 300;
+const SMOKE_INTERVAL_MS = 40; // one trail puff per rocket this often
+const FIRE_INTERVAL_MS = 60; // one flame per burning city this often
+const COLLAPSE_MS = 900;
+const SHAKE_MAX = 10; // world units
+const SHAKE_DECAY_MS = 120;
+
+// Bitmask of standing cities and batteries plus the quality bit: the only
+// things the cached structures layer depends on
+const structureKey = (state: GameState, high: boolean) => {
+  let key = high ? 1 : 0;
+  let bit = 2;
+  for (const c of state.cities) {
+    if (!c.isDestroyed) key |= bit;
+    bit *= 2;
+  }
+  for (const b of state.batteries) {
+    if (!b.isDestroyed) key |= bit;
+    bit *= 2;
+  }
+  return key;
+};
+// Two-player markings: the second co-op defender and the versus attacker
+const SECOND_PLAYER_COLOR = '#38bdf8';
+const ATTACKER_COLOR = '#f43f5e';
+// Quiet time after which the next spawn sounds the incoming-wave warning
+const INCOMING_GAP_TICKS = 2 * GAME_CONFIG.TICKS_PER_SECOND;
+// Total interceptors left across live batteries that sounds the low-ammo alarm
+const LOW_AMMO_WARNING = 8;
+
+// Campaign levels count down; survival modes count how long you've held out
+const getClock = (state: GameState) =>
+  Math.floor(state.mode === 'campaign' ? getTimeLeft(state) : getElapsedSeconds(state));
+
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [status, setStatus] = useState<GameStatus>(GameStatus.START);
   const [score, setScore] = useState(0);
   const [level, setLevel] = useState(1);
-  const [lang, setLang] = useState<'en' | 'cn'>('cn');
   const [timeLeft, setTimeLeft] = useState(GAME_CONFIG.LEVEL_DURATION_SEC);
-  const audioCtxRef = useRef<AudioContext | null>(null);
+  const [sound] = useState(createSoundManager);
+  const [backgroundLayer] = useState(createLayer);
+  const [structuresLayer] = useState(createLayer);
+  const sceneVersionRef = useRef(0);
+  const [particles] = useState(() => createParticleSystem(PARTICLE_CAPACITY));
+  const collapsesRef = useRef<{ index: number; age: number }[]>([]);
+  const shakeRef = useRef(0); // current shake amplitude in world units
+  const emitClockRef = useRef({ smoke: 0, fire: 0 });
+  const lastSpawnTickRef = useRef(-Infinity);
+  const lowAmmoWarnedRef = useRef(false);
+  const [narrator] = useState(createDefaultNarrator);
+  // `id` ties an answer to the level that asked, so a late reply for an
+  // abandoned level is dropped
+  const [briefing, setBriefing] = useState<{ id: number; text: BilingualText | null } | null>(null);
+  const [report, setReport] = useState<{ id: number; text: BilingualText | null } | null>(null);
+  const narrativeIdRef = useRef(0);
+  const citiesLostRef = useRef(0);
   
-  const stateRef = useRef({
-    rockets: [] as Rocket[],
-    interceptors: [] as Interceptor[],
-    explosions: [] as Explosion[],
-    batteries: [] as Battery[],
-    cities: [] as City[],
-    width: 0,
-    height: 0,
-    stars: [] as {x: number, y: number, size: number}[],
+  const stateRef = useRef<GameState>(createLevelState({ level: 1, width: 0, height: 0, seed: 0 }));
+  // Decoration only; the engine knows nothing about it
+  const sceneRef = useRef({
+    stars: [] as {x: number, y: number, size: number, twinkle: boolean}[],
     silhouette: [] as {x: number, y: number, w: number, h: number}[],
-    rocketsToSpawn: 0,
-    levelStartTime: 0,
   });
+  const inputRef = useRef<InputController | null>(null);
+  const viewportRef = useRef<Viewport | null>(null);
+  const runSeedRef = useRef(0);
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const replayRef = useRef<ReplayFile | null>(null);
+  const replayPlayerRef = useRef<ReturnType<typeof createReplayPlayer> | null>(null);
+  const replayLevelIndexRef = useRef(0);
+  const levelStartScoreRef = useRef(0);
+  const levelScoreRef = useRef(0);
+  const [progress, setProgress] = useState(loadProgress);
+  const runTicksRef = useRef(0);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [mode, setMode] = useState<GameMode>('campaign');
+  const modeRef = useRef<GameMode>('campaign'); // read by initGame in the same tick it is set
+  const [players, setPlayers] = useState<PlayerMode>('solo'); // picked on the start screen, kept for the run
+  const playersRef = useRef<PlayerMode>('solo');
+  const [playerResults, setPlayerResults] = useState<PlayerResult[]>(createPlayerResults);
+  const playerResultsRef = useRef(playerResults); // updated in place by the game loop
+  const levelStartPlayerResultsRef = useRef(playerResults);
+  const attackTargetRef = useRef<string | null>(null); // versus: the attacker's current pick
+  const [modeRecords, setModeRecords] = useState(loadModeRecords);
+  const dailyScoredRef = useRef(false); // false once today's attempt is used: practice
+  const [loadout, setLoadout] = useState<Loadout>({ upgrades: {} });
+  const loadoutRef = useRef(loadout);
+  loadoutRef.current = loadout;
+  const [savedRun, setSavedRun] = useState(loadSavedRun); // offered on the start screen
+  const [settings, setSettings] = useState(loadSettings);
+  // Mirrors for long-lived listeners that must not capture a stale render
+  const statusRef = useRef(status);
+  statusRef.current = status;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const [browserLocale] = useState(detectLocale);
+  const locale = settings.locale ?? browserLocale;
+  const { t, tag, formatNumber } = useMemo(() => createTranslator(locale), [locale]);
+  const reducedMotion = useReducedMotion(settings.accessibility.motion);
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
+  const [showAccessibility, setShowAccessibility] = useState(false);
+  // Text for the screen-reader live region
+  const [announcement, setAnnouncement] = useState('');
+  // The same text twice wouldn't be re-read, so repeats get a trailing no-break space
+  const announce = (text: string) => setAnnouncement(prev => (prev === text ? `${text}\u00a0` : text));
+  const manualBatteryRef = useRef('b-mid');
+  const [activeBatteryId, setActiveBatteryId] = useState<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [isReplay, setIsReplay] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
 
   const [uiBatteries, setUiBatteries] = useState<Battery[]>([]);
+  const [reserveCities, setReserveCities] = useState(0);
+  const [levelResult, setLevelResult] = useState<{ stats: LevelStats; tally?: LevelTally; director: DirectorState | null } | null>(null);
+  // Floating score text, in world units; purely cosmetic
+  const floatersRef = useRef<{ x: number; y: number; text: string; color: string; age: number }[]>([]);
 
-  const t = {
-    en: {
-      title: "Tina Nova Defense",
-      start: "Start Game",
-      win: "Victory!",
-      loss: "Game Over",
-      levelComplete: "Level Complete!",
-      score: "Score",
-      level: "Level",
-      winMsg: "Level cleared! Next challenge awaits.",
-      lossMsg: "All cities destroyed. Civilization has fallen.",
-      restart: "Restart from Level 1",
-      nextLevel: "Next Level",
-      endGame: "Quit to Menu",
-      ammo: "Ammo",
-      instructions: "Tap anywhere to intercept incoming rockets. Protect the cities!",
-      rocketsLeft: "Rockets",
-    },
-    cn: {
-      title: "Tina新星防御",
-      start: "开始游戏",
-      win: "胜利！",
-      loss: "游戏结束",
-      levelComplete: "关卡完成！",
-      score: "得分",
-      level: "关卡",
-      winMsg: "关卡已清除！下一个挑战在等待。",
-      lossMsg: "所有城市已被摧毁。文明已经沦陷。",
-      restart: "从第一关重新开始",
-      nextLevel: "下一局",
-      endGame: "结束游戏",
-      ammo: "弹药",
-      instructions: "点击屏幕任意位置拦截敌方火箭。保卫城市！",
-      rocketsLeft: "剩余火箭",
-    }
-  }[lang];
 
-  const getRocketsForLevel = (l: number) => {
-    if (l >= GAME_CONFIG.TOTAL_LEVELS) return GAME_CONFIG.LEVEL_100_ROCKETS;
-    const range = GAME_CONFIG.LEVEL_100_ROCKETS - GAME_CONFIG.LEVEL_1_ROCKETS;
-    return Math.floor(GAME_CONFIG.LEVEL_1_ROCKETS + (l - 1) * (range / (GAME_CONFIG.TOTAL_LEVELS - 1)));
+  useEffect(() => {
+    saveProgress(progress);
+  }, [progress]);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    saveModeRecords(modeRecords);
+  }, [modeRecords]);
+
+  useEffect(() => {
+    document.documentElement.lang = tag;
+  }, [tag]);
+
+  // Build a level's state and the scenery behind it, and clear leftover effects
+  const prepareScene = (canvas: HTMLCanvasElement, state: GameState) => {
+    const { width, height } = state;
+    stateRef.current = state;
+    // Replays carry their own world size, so refit whenever a level starts
+    viewportRef.current = measureViewport(canvas, state);
+    applyViewport(canvas, viewportRef.current);
+    floatersRef.current = [];
+    particles.clear();
+    collapsesRef.current = [];
+    shakeRef.current = 0;
+
+    // Scenery gets its own stream so it never shifts the gameplay sequence
+    const sceneRandom = createRng(deriveSeed(state.seed, 'scene'));
+
+    // Generate stars
+    sceneRef.current.stars = Array.from({ length: 100 }).map((_, i) => {
+      const y = sceneRandom() * (height * 0.7);
+      return {
+        x: sceneRandom() * width,
+        y,
+        size: sceneRandom() * 2,
+        // A few stars stay off the cached sky and flicker on top of it; only
+        // ones above the tallest silhouette, so they never show through it
+        twinkle: i % 4 === 0 && y < height - SILHOUETTE_MAX_HEIGHT,
+      };
+    });
+
+    // Pre-calculate silhouette
+    sceneRef.current.silhouette = Array.from({ length: 20 }).map((_, i) => ({
+      x: i * (width / 15),
+      y: height,
+      w: 40 + sceneRandom() * 60,
+      h: 50 + sceneRandom() * (SILHOUETTE_MAX_HEIGHT - 50),
+    }));
+    sceneVersionRef.current++;
+    structuresLayer.invalidate();
   };
 
-  const initGame = useCallback((resetLevel = true, isNextLevel = false) => {
+  const initGame = useCallback((resetLevel = true, isNextLevel = false, startLevel = 1) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     
-    const width = window.innerWidth;
-    const height = window.innerHeight;
-    canvas.width = width;
-    canvas.height = height;
-    
-    stateRef.current.width = width;
-    stateRef.current.height = height;
-    
+    const replay = replayRef.current;
     let currentLevel = level;
     if (resetLevel) {
-      currentLevel = 1;
-      setLevel(1);
+      currentLevel = replay ? replay.levels[0].setup.level : startLevel;
+      replayLevelIndexRef.current = 0;
+      setLevel(currentLevel);
       setScore(0);
+      levelStartScoreRef.current = 0;
+      runTicksRef.current = 0;
+      playerResultsRef.current = createPlayerResults();
     } else if (isNextLevel) {
       currentLevel = level + 1;
+      replayLevelIndexRef.current++;
       setLevel(currentLevel);
+      levelStartScoreRef.current = score;
+    } else {
+      // Restarting the current level: undo whatever the abandoned attempt scored
+      setScore(levelStartScoreRef.current);
+      playerResultsRef.current = copyPlayerResults(levelStartPlayerResultsRef.current);
+      recorderRef.current?.discardLevel();
     }
+    levelStartPlayerResultsRef.current = copyPlayerResults(playerResultsRef.current);
+    setPlayerResults(copyPlayerResults(playerResultsRef.current));
 
-    const totalRockets = getRocketsForLevel(currentLevel);
-    const totalAmmo = Math.floor(totalRockets * GAME_CONFIG.AMMO_MULTIPLIER);
-    
-    // Distribute ammo: 25% sides, 50% middle
-    const sideAmmo = Math.floor(totalAmmo * 0.25);
-    const midAmmo = totalAmmo - (sideAmmo * 2);
-
-    stateRef.current.batteries = [
-      { id: 'b-left', x: 80, y: height - 40, ammo: sideAmmo, maxAmmo: sideAmmo, health: GAME_CONFIG.BATTERY_MAX_HEALTH, maxHealth: GAME_CONFIG.BATTERY_MAX_HEALTH, isDestroyed: false },
-      { id: 'b-mid', x: width / 2, y: height - 40, ammo: midAmmo, maxAmmo: midAmmo, health: GAME_CONFIG.BATTERY_MAX_HEALTH, maxHealth: GAME_CONFIG.BATTERY_MAX_HEALTH, isDestroyed: false },
-      { id: 'b-right', x: width - 80, y: height - 40, ammo: sideAmmo, maxAmmo: sideAmmo, health: GAME_CONFIG.BATTERY_MAX_HEALTH, maxHealth: GAME_CONFIG.BATTERY_MAX_HEALTH, isDestroyed: false },
-    ];
-    
-    stateRef.current.cities = INITIAL_CITIES(width, height);
-    stateRef.current.rockets = [];
-    stateRef.current.interceptors = [];
-    stateRef.current.explosions = [];
-    stateRef.current.rocketsToSpawn = totalRockets;
-    stateRef.current.levelStartTime = Date.now();
-    
-    setTimeLeft(GAME_CONFIG.LEVEL_DURATION_SEC);
+    // A new run starts with no upgrades and an undamaged world
+    const runLoadout: Loadout = resetLevel ? { upgrades: {} } : loadout;
+    if (resetLevel) setLoadout(runLoadout);
 
-    // Generate stars
-    stateRef.current.stars = Array.from({ length: 100 }).map(() => ({
-      x: Math.random() * width,
-      y: Math.random() * (height * 0.7),
-      size: Math.random() * 2,
-    }));
+    let setup: LevelSetup;
+    if (replay) {
+      const recorded = replay.levels[replayLevelIndexRef.current];
+      setup = recorded.setup;
+      replayPlayerRef.current = createReplayPlayer(recorded);
+      if (isNextLevel && recorded.spent) setScore(s => s - recorded.spent!);
+    } else {
+      const survival = modeRef.current !== 'campaign';
+      setup = {
+        level: currentLevel,
+        width: GAME_CONFIG.WORLD_WIDTH,
+        height: GAME_CONFIG.WORLD_HEIGHT,
+        seed: deriveSeed(runSeedRef.current, currentLevel),
+        upgrades: runLoadout.upgrades,
+        world: runLoadout.world,
+        // Survival modes generate their waves from the seed as the run goes
+        waves: survival ? undefined : getLevelWaves(currentLevel),
+        mode: modeRef.current,
+        // The daily challenge is the same run for everyone
+        difficulty: modeRef.current === 'daily' ? 'normal' : settingsRef.current.difficulty,
+        adaptive: modeRef.current !== 'daily' && settingsRef.current.adaptive,
+        players: playersRef.current,
+      };
+      replayPlayerRef.current = null;
+      recorderRef.current?.beginLevel(setup);
+    }
 
-    // Pre-calculate silhouette
-    stateRef.current.silhouette = Array.from({ length: 20 }).map((_, i) => ({
-      x: i * (width / 15),
-      y: height,
-      w: 40 + Math.random() * 60,
-      h: 50 + Math.random() * 150,
-    }));
+    prepareScene(canvas, createLevelState(setup));
+    inputRef.current?.drain();
+    // The second player's cursor starts over their side of the field; the attacker's on the top edge
+    const secondCursor = inputRef.current?.cursors[1];
+    if (secondCursor) {
+      secondCursor.x = stateRef.current.width * 0.75;
+      secondCursor.y = stateRef.current.players === 'versus' ? 0 : stateRef.current.height / 2;
+    }
+    levelScoreRef.current = 0;
+    lastSpawnTickRef.current = -Infinity;
+    lowAmmoWarnedRef.current = false;
+    attackTargetRef.current = null;
+    setLevelResult(null);
+    setReserveCities(stateRef.current.reserveCities);
+    citiesLostRef.current = 0;
+
+    // Text arrives whenever the narrator answers; play never waits for it
+    const narrativeId = ++narrativeIdRef.current;
+    setReport(null);
+    if (settingsRef.current.briefings && !replay) {
+      const state = stateRef.current;
+      const campaign = state.mode === 'campaign';
+      setBriefing({ id: narrativeId, text: null });
+      narrator
+        .briefing({
+          level: state.level,
+          mode: state.mode,
+          rockets: campaign ? state.rocketsToSpawn : 0,
+          newKinds: campaign ? getNewKinds(state.level) : [],
+          citiesStanding: state.cities.filter(c => !c.isDestroyed).length,
+          reserveCities: state.reserveCities,
+        })
+        .then(text => setBriefing(b => (b?.id === narrativeId ? { id: narrativeId, text } : b)));
+    } else {
+      setBriefing(null);
+    }
+    
+    setTimeLeft(getClock(stateRef.current));
     
     setUiBatteries([...stateRef.current.batteries]);
 
-    if (!audioCtxRef.current) {
-      audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    sound.unlock();
+    announce((setup.mode ?? 'campaign') === 'campaign'
+      ? t('announce.levelStart', { n: setup.level, count: stateRef.current.rocketsToSpawn })
+      : t('announce.survivalStart'));
+  }, [level, score, loadout, t]);
+
+  const startGame = (startLevel = 1, runMode: GameMode = 'campaign', runPlayers: PlayerMode = players) => {
+    replayRef.current = null;
+    setIsReplay(false);
+    modeRef.current = runMode;
+    setMode(runMode);
+    playersRef.current = runPlayers;
+    setPlayers(runPlayers);
+    if (runMode === 'daily') {
+      // Everyone gets the same seed today; only the first attempt is scored
+      const today = getDailyDate();
+      runSeedRef.current = getDailySeed(today);
+      dailyScoredRef.current = !hasPlayedDaily(modeRecords, today);
+      if (dailyScoredRef.current) setModeRecords(r => startDailyAttempt(r, today));
+    } else {
+      runSeedRef.current = createSeed();
     }
-  }, [level]);
+    recorderRef.current = createReplayRecorder(runSeedRef.current);
+    // A new run replaces whatever was saved
+    clearSavedRun();
+    setSavedRun(null);
+    initGame(true, false, startLevel);
+    setStatus(GameStatus.PLAYING);
+  };
+
+  // Pick a saved level back up. It comes back paused so the player can get
+  // their bearings before the rockets move again.
+  const resumeRun = (run: SavedRun) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    replayRef.current = null;
+    replayPlayerRef.current = null;
+    setIsReplay(false);
+    modeRef.current = run.mode;
+    setMode(run.mode);
+    playersRef.current = run.state.players;
+    setPlayers(run.state.players);
+    playerResultsRef.current = copyPlayerResults(run.playerResults);
+    levelStartPlayerResultsRef.current = copyPlayerResults(run.levelStartPlayerResults);
+    setPlayerResults(copyPlayerResults(run.playerResults));
+    runSeedRef.current = run.runSeed;
+    dailyScoredRef.current = run.dailyScored;
+    recorderRef.current = createReplayRecorder(run.runSeed, run.replay.levels);
+    setLoadout(run.loadout);
+    setLevel(run.level);
+    setScore(run.score);
+    levelStartScoreRef.current = run.levelStartScore;
+    levelScoreRef.current = run.levelScore;
+    runTicksRef.current = run.runTicks;
+    citiesLostRef.current = run.citiesLost;
+
+    prepareScene(canvas, run.state);
+    inputRef.current?.drain();
+    lastSpawnTickRef.current = -Infinity;
+    attackTargetRef.current = null;
+    const ammoLeft = run.state.batteries.reduce((sum, b) => sum + (b.isDestroyed ? 0 : b.ammo), 0);
+    lowAmmoWarnedRef.current = ammoLeft <= LOW_AMMO_WARNING;
+    narrativeIdRef.current++;
+    setBriefing(null);
+    setReport(null);
+    setLevelResult(null);
+    setReserveCities(run.state.reserveCities);
+    setUiBatteries([...run.state.batteries]);
+    setTimeLeft(getClock(run.state));
+    setSavedRun(null);
+    sound.unlock();
+    renderFrame();
+    setStatus(GameStatus.PAUSED);
+  };
 
-  const startGame = () => {
+  const startReplay = (replay: ReplayFile) => {
+    replayRef.current = replay;
+    setIsReplay(true);
+    modeRef.current = replay.levels[0].setup.mode ?? 'campaign';
+    setMode(modeRef.current);
+    playersRef.current = replay.levels[0].setup.players ?? 'solo';
+    setPlayers(playersRef.current);
+    runSeedRef.current = replay.seed;
+    recorderRef.current = null;
     initGame(true);
     setStatus(GameStatus.PLAYING);
   };
 
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplayError(null);
+      startReplay(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(t('replayInvalid', { error: (err as Error).message }));
+    }
+  };
+
+  const downloadReplay = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    const blob = new Blob([JSON.stringify(recorder.finish(score))], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `tina-nova-replay-${recorder.seed >>> 0}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const hasNextReplayLevel = () => {
+    const replay = replayRef.current;
+    return !replay || replayLevelIndexRef.current + 1 < replay.levels.length;
+  };
+
+  const pauseGame = useCallback(() => {
+    setStatus(s => (s === GameStatus.PLAYING ? GameStatus.PAUSED : s));
+  }, []);
+
+  const resumeGame = () => {
+    setStatus(GameStatus.PLAYING);
+  };
+
+  const restartLevel = () => {
+    // A restarted daily run would be a free re-roll, so it only counts as practice
+    if (modeRef.current === 'daily') dailyScoredRef.current = false;
+    initGame(false, false);
+    setStatus(GameStatus.PLAYING);
+  };
+
   const handleNextLevel = () => {
     initGame(false, true);
     setStatus(GameStatus.PLAYING);
   };
 
+  const openArmory = () => {
+    // Replays already know what was bought; go straight to the next recorded level
+    if (replayRef.current) handleNextLevel();
+    else setStatus(GameStatus.ARMORY);
+  };
+
+  const buyItem = (item: ArmoryItem, cost: number) => {
+    if (cost > score) return;
+    setScore(s => s - cost);
+    setLoadout(l => applyPurchase(l, item));
+    recorderRef.current?.recordSpend(cost);
+  };
+
   const endGame = () => {
+    // Quitting abandons the level, so there is nothing left to resume
+    clearSavedRun();
+    setSavedRun(null);
+    replayRef.current = null;
+    replayPlayerRef.current = null;
+    setIsReplay(false);
     setStatus(GameStatus.START);
   };
 
-  const handleCanvasClick = (e: React.MouseEvent | React.TouchEvent) => {
-    if (status !== GameStatus.PLAYING) return;
+  // In manual mode every shot comes from the selected battery
+  const makeFireCommand = (x: number, y: number): FireCommand => ({
+    x,
+    y,
+    mode: settings.fireMode,
+    batteryId: settings.fireMode === 'manual' ? manualBatteryRef.current : undefined,
+  });
 
-    let clientX, clientY;
-    if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else {
-      clientX = (e as React.MouseEvent).clientX;
-      clientY = (e as React.MouseEvent).clientY;
-    }
+  const cycleFireMode = () => {
+    setSettings(s => ({ ...s, fireMode: FIRE_MODES[(FIRE_MODES.indexOf(s.fireMode) + 1) % FIRE_MODES.length] }));
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const input = createInputController({
+      toWorld: (clientX, clientY) => {
+        const vp = viewportRef.current ?? measureViewport(canvas, stateRef.current);
+        return clientToWorld(vp, canvas.getBoundingClientRect(), stateRef.current, clientX, clientY);
+      },
+      getBounds: () => stateRef.current,
+      isActive: () => statusRef.current === GameStatus.PLAYING && !replayRef.current,
+      batteryKeys: () => playersRef.current === 'solo' && settingsRef.current.fireMode === 'manual',
+      players: () => (playersRef.current === 'solo' ? 1 : 2),
+      sidewaysOnly: () => playersRef.current === 'versus',
+    });
+    input.attach(canvas);
+    inputRef.current = input;
+    return () => {
+      input.detach();
+      inputRef.current = null;
+    };
+  }, []);
+
+  // Refit on window resize, rotation and devicePixelRatio changes (zoom, moving
+  // to another monitor). The world itself never changes size mid-level.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const refit = () => {
+      viewportRef.current = measureViewport(canvas, stateRef.current);
+      applyViewport(canvas, viewportRef.current);
+      if (statusRef.current !== GameStatus.START) renderFrame();
+    };
+    const observer = new ResizeObserver(refit);
+    observer.observe(canvas);
+    window.addEventListener('resize', refit);
+    window.addEventListener('orientationchange', refit);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', refit);
+      window.removeEventListener('orientationchange', refit);
+    };
+  }, []);
 
-    const availableBatteries = stateRef.current.batteries.filter(b => !b.isDestroyed && b.ammo > 0);
-    if (availableBatteries.length === 0) return;
+  useEffect(() => {
+    particles.setLimit(settings.quality === 'high' ? PARTICLE_CAPACITY : LOW_QUALITY_PARTICLES);
+  }, [settings.quality, particles]);
 
-    let nearest = availableBatteries[0];
-    let minDist = Infinity;
+  useEffect(() => {
+    if (!reducedMotion) return;
+    particles.clear();
+    collapsesRef.current = [];
+    shakeRef.current = 0;
+  }, [reducedMotion, particles]);
 
-    availableBatteries.forEach(b => {
-      const dist = Math.sqrt(Math.pow(b.x - clientX, 2) + Math.pow(b.y - clientY, 2));
-      if (dist < minDist) {
-        minDist = dist;
-        nearest = b;
+  // Display settings changed from the pause menu show up on the frozen frame right away
+  useEffect(() => {
+    if (statusRef.current !== GameStatus.START) renderFrame();
+  }, [settings.quality, settings.accessibility.palette, reducedMotion]);
+
+  // Turn device-agnostic input into engine commands. With two players the
+  // defenders fire from the nearest of their own batteries, and in versus the
+  // second player's commands pick targets and launch rockets instead.
+  const toGameInputs = (commands: InputCommand[]): GameInputs => {
+    const state = stateRef.current;
+    const { batteries } = state;
+    const fire: FireCommand[] = [];
+    const launch: LaunchCommand[] = [];
+    commands.forEach(cmd => {
+      if (state.players === 'versus' && cmd.player === 1) {
+        const x = inputRef.current?.cursors[1].x ?? 0;
+        if (cmd.type === 'cycleBattery') {
+          attackTargetRef.current = cycleAttackTarget(state, attackTargetRef.current, x, cmd.delta);
+          return;
+        }
+        const target = resolveAttackTarget(state, attackTargetRef.current, x);
+        if (target) launch.push({ x: cmd.x, targetId: target.id });
+        return;
+      }
+      if (state.players !== 'solo') {
+        if (cmd.type === 'fire') fire.push({ x: cmd.x, y: cmd.y, mode: 'nearest', player: cmd.player });
+        return;
       }
+      if (cmd.type === 'cycleBattery') {
+        const index = batteries.findIndex(b => b.id === manualBatteryRef.current);
+        manualBatteryRef.current = batteries[(index + cmd.delta + batteries.length) % batteries.length].id;
+        return;
+      }
+      // 1/2/3, A/S/D pick the battery for this shot and keep it selected
+      if (cmd.batteryIndex !== undefined && batteries[cmd.batteryIndex]) {
+        manualBatteryRef.current = batteries[cmd.batteryIndex].id;
+      }
+      fire.push(makeFireCommand(cmd.x, cmd.y));
     });
+    return { fire, launch };
+  };
 
-    nearest.ammo--;
-    setUiBatteries([...stateRef.current.batteries]);
+  // Esc / P toggle pause
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' && e.key.toLowerCase() !== 'p') return;
+      setStatus(s => {
+        if (s === GameStatus.PLAYING) return GameStatus.PAUSED;
+        if (s === GameStatus.PAUSED) return GameStatus.PLAYING;
+        return s;
+      });
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Auto-pause when the tab is hidden or the window loses focus
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') pauseGame();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('blur', pauseGame);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('blur', pauseGame);
+    };
+  }, [pauseGame]);
 
-    const dx = clientX - nearest.x;
-    const dy = (clientY - (nearest.y - 30));
-    const dist = Math.sqrt(dx * dx + dy * dy);
-
-    stateRef.current.interceptors.push({
-      id: Math.random().toString(36).substr(2, 9),
-      x: nearest.x,
-      y: nearest.y - 30,
-      startX: nearest.x,
-      startY: nearest.y - 30,
-      targetX: clientX,
-      targetY: clientY,
-      vx: (dx / dist) * GAME_CONFIG.INTERCEPTOR_SPEED,
-      vy: (dy / dist) * GAME_CONFIG.INTERCEPTOR_SPEED,
-      speed: GAME_CONFIG.INTERCEPTOR_SPEED,
-      progress: 0,
-      isExploded: false,
+  // Snapshot the level in progress into the save slot. Only reads refs, so the
+  // page-hide listeners below can hold on to it. Replays aren't saved.
+  const writeSave = () => {
+    const state = stateRef.current;
+    const recorder = recorderRef.current;
+    const current = statusRef.current;
+    if (replayRef.current || !recorder || state.outcome !== 'playing') return;
+    if (current !== GameStatus.PLAYING && current !== GameStatus.PAUSED) return;
+    const score = levelStartScoreRef.current + levelScoreRef.current;
+    saveRun({
+      gameVersion: GAME_VERSION,
+      savedAt: new Date().toISOString(),
+      state,
+      level: state.mode === 'campaign' ? state.level : 1,
+      score,
+      levelStartScore: levelStartScoreRef.current,
+      levelScore: levelScoreRef.current,
+      runTicks: runTicksRef.current,
+      runSeed: runSeedRef.current,
+      mode: modeRef.current,
+      dailyScored: dailyScoredRef.current,
+      loadout: loadoutRef.current,
+      citiesLost: citiesLostRef.current,
+      playerResults: playerResultsRef.current,
+      levelStartPlayerResults: levelStartPlayerResultsRef.current,
+      replay: recorder.finish(score),
     });
   };
 
+  useEffect(() => {
+    if (status === GameStatus.PAUSED) writeSave();
+    if (status !== GameStatus.PLAYING) return;
+    const timer = setInterval(writeSave, SAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  // Mobile browsers may discard a background tab without another event, so
+  // save whenever the page is hidden, not only when it unloads
+  useEffect(() => {
+    const onHidden = () => {
+      if (document.visibilityState === 'hidden') writeSave();
+    };
+    window.addEventListener('pagehide', writeSave);
+    document.addEventListener('visibilitychange', onHidden);
+    return () => {
+      window.removeEventListener('pagehide', writeSave);
+      document.removeEventListener('visibilitychange', onHidden);
+    };
+  }, []);
+
+  // Silence audio while paused
+  useEffect(() => {
+    if (status === GameStatus.PAUSED) sound.suspend();
+    if (status === GameStatus.PLAYING) sound.resume();
+  }, [status, sound]);
+
+  useEffect(() => {
+    sound.setSettings(settings.audio);
+  }, [settings.audio, sound]);
+
+  const displayPanel = (
+    <div className="space-y-4">
+      <AccessibilityControls
+        settings={settings.accessibility}
+        onChange={accessibility => setSettings(s => ({ ...s, accessibility }))}
+        labels={{
+          palette: t('palette'),
+          palettes: { default: t('palette.default'), redGreen: t('palette.redGreen'), blueYellow: t('palette.blueYellow') },
+          motion: t('motion'),
+          motions: { system: t('motion.system'), reduced: t('motion.reduced'), full: t('motion.full') },
+          highContrast: t('highContrast'),
+        }}
+      />
+      <div className="bg-white/5 rounded-3xl p-5 border border-white/5 space-y-4 text-left">
+        <Choice
+          label={t('quality')}
+          options={[['high', t('quality.high')], ['low', t('quality.low')]]}
+          value={settings.quality}
+          onSelect={quality => setSettings(s => ({ ...s, quality }))}
+        />
+        <Choice
+          label={t('briefings')}
+          options={[['on', t('on')], ['off', t('off')]]}
+          value={settings.briefings ? 'on' : 'off'}
+          onSelect={value => setSettings(s => ({ ...s, briefings: value === 'on' }))}
+        />
+      </div>
+    </div>
+  );
+
+  // The briefing clears itself a while after it arrives
+  useEffect(() => {
+    if (!briefing?.text || status !== GameStatus.PLAYING) return;
+    const timer = setTimeout(() => setBriefing(null), BRIEFING_MS);
+    return () => clearTimeout(timer);
+  }, [briefing, status]);
+
+  const requestReport = (won: boolean) => {
+    if (!settingsRef.current.briefings || replayRef.current) return;
+    const state = stateRef.current;
+    const id = narrativeIdRef.current;
+    setReport({ id, text: null });
+    narrator
+      .report({
+        level: state.level,
+        mode: state.mode,
+        won,
+        stats: { ...state.stats },
+        citiesLost: citiesLostRef.current,
+        citiesStanding: state.cities.filter(c => !c.isDestroyed).length,
+        score: levelScoreRef.current,
+      })
+      .then(text => setReport(r => (r?.id === id ? { id, text } : r)));
+  };
+
+  const toggleMute = () => setSettings(s => ({ ...s, audio: { ...s.audio, muted: !s.audio.muted } }));
+
+  // A frame can carry dozens of kills from one chain reaction, so HUD state is
+  // collected here and committed with a single update per kind after the loop.
+  const handleEvents = (events: GameEvent[]) => {
+    let points = 0;
+    let batteriesChanged = false;
+    let cityLost = false;
+    const spoken: string[] = [];
+    const effects = !reducedMotionRef.current;
+    const burst = settingsRef.current.quality === 'high' ? 1 : 0.4;
+    // Before the loop, so the end-of-level screens below see this frame's results
+    if (recordPlayerEvents(playerResultsRef.current, stateRef.current, events)) {
+      setPlayerResults(copyPlayerResults(playerResultsRef.current));
+    }
+    events.forEach(e => {
+      switch (e.type) {
+        case 'interceptorLaunched': {
+          sound.play('launch');
+          batteriesChanged = true;
+          const ammoLeft = stateRef.current.batteries.reduce((sum, b) => sum + (b.isDestroyed ? 0 : b.ammo), 0);
+          if (ammoLeft <= LOW_AMMO_WARNING && !lowAmmoWarnedRef.current) {
+            lowAmmoWarnedRef.current = true;
+            sound.play('lowAmmo');
+            spoken.push(t('announce.lowAmmo', { count: ammoLeft }));
+          }
+          break;
+        }
+        case 'batteryHit': {
+          sound.play('impact');
+          batteriesChanged = true;
+          const b = stateRef.current.batteries.find(b => b.id === e.batteryId);
+          if (effects && b) particles.debris(b.x, b.y - 20, '#64748b', Math.round(20 * burst), 0.3);
+          break;
+        }
+        case 'cityHit': {
+          sound.play('impact');
+          cityLost = true;
+          citiesLostRef.current++;
+          const index = stateRef.current.cities.findIndex(c => c.id === e.cityId);
+          if (effects && index >= 0) {
+            const c = stateRef.current.cities[index];
+            collapsesRef.current.push({ index, age: 0 });
+            particles.debris(c.x, c.y - 30, '#a8a29e', Math.round(30 * burst), 0.3);
+          }
+          break;
+        }
+        case 'rocketSpawned': {
+          const { tick } = stateRef.current;
+          if (tick - lastSpawnTickRef.current >= INCOMING_GAP_TICKS) sound.play('incoming');
+          lastSpawnTickRef.current = tick;
+          break;
+        }
+        case 'resupply': {
+          const { width, height } = stateRef.current;
+          floatersRef.current.push({ x: width / 2, y: height / 3, text: t('resupply'), color: '#34d399', age: 0 });
+          lowAmmoWarnedRef.current = false;
+          batteriesChanged = true;
+          break;
+        }
+        case 'explosion':
+          sound.play('explosion');
+          // Blasts near the ground shake the view; high-altitude ones barely do
+          if (effects) {
+            const depth = e.y / stateRef.current.height;
+            shakeRef.current = Math.min(SHAKE_MAX, shakeRef.current + SHAKE_MAX * depth ** 3);
+          }
+          break;
+        case 'bonusCity': {
+          const { width, height } = stateRef.current;
+          floatersRef.current.push({ x: width / 2, y: height / 3, text: t('bonusCity'), color: '#38bdf8', age: 0 });
+          setReserveCities(e.reserveCities);
+          break;
+        }
+        case 'cityRebuilt':
+          setReserveCities(e.reserveCities);
+          break;
+        case 'rocketDestroyed':
+          sound.play('intercept');
+          if (effects) {
+            const palette = PALETTES[settingsRef.current.accessibility.palette];
+            particles.debris(e.x, e.y, palette.rockets[e.kind], Math.round(12 * burst));
+          }
+          levelScoreRef.current += e.points;
+          points += e.points;
+          floatersRef.current.push({
+            x: e.x,
+            y: e.y,
+            text: e.multiplier > 1 ? `+${e.points} ×${e.multiplier}` : `+${e.points}`,
+            color: e.multiplier > 1 ? '#fbbf24' : '#e4e4e7',
+            age: 0,
+          });
+          break;
+        case 'levelComplete': {
+          sound.play('levelComplete');
+          levelScoreRef.current += e.tally.total;
+          points += e.tally.total;
+          spoken.push(t('announce.levelComplete', { n: e.level, score: levelStartScoreRef.current + levelScoreRef.current }));
+          setLevelResult({ stats: { ...stateRef.current.stats }, tally: e.tally, director: stateRef.current.director && { ...stateRef.current.director } });
+          clearSavedRun();
+          requestReport(true);
+          runTicksRef.current += stateRef.current.tick;
+          if (!replayRef.current) {
+            setLoadout(l => ({ ...l, world: carryOverWorld(stateRef.current) }));
+          }
+          // Campaign progress tracks solo play only
+          if (!replayRef.current && playersRef.current === 'solo') {
+            const { cities } = stateRef.current;
+            const stars = getStars(cities.filter(c => !c.isDestroyed).length, cities.length);
+            setProgress(p => recordLevelResult(p, e.level, levelScoreRef.current, stars));
+          }
+          setStatus(e.level >= GAME_CONFIG.TOTAL_LEVELS ? GameStatus.WON : GameStatus.LEVEL_COMPLETE);
+          break;
+        }
+        case 'gameOver': {
+          sound.play('gameOver');
+          setLevelResult({ stats: { ...stateRef.current.stats }, director: stateRef.current.director && { ...stateRef.current.director } });
+          clearSavedRun();
+          requestReport(false);
+          runTicksRef.current += stateRef.current.tick;
+          const finalScore = levelStartScoreRef.current + levelScoreRef.current;
+          spoken.push(t('announce.gameOver', { score: finalScore }));
+          if (!replayRef.current && modeRef.current === 'endless') {
+            setModeRecords(r => recordEndlessRun(r, finalScore, Math.floor(getElapsedSeconds(stateRef.current))));
+          } else if (!replayRef.current && modeRef.current === 'daily' && dailyScoredRef.current) {
+            setModeRecords(r => recordDailyScore(r, finalScore));
+          }
+          setStatus(GameStatus.LOST);
+          break;
+        }
+      }
+    });
+    if (points) setScore(s => s + points);
+    if (batteriesChanged) setUiBatteries([...stateRef.current.batteries]);
+    if (cityLost) {
+      const left = stateRef.current.cities.filter(c => !c.isDestroyed).length;
+      spoken.unshift(t('announce.cityDestroyed', { count: left }));
+    }
+    if (spoken.length) announce(spoken.join(' '));
+  };
+
   // Drawing Helpers
-  const drawMissile = (ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, color: string, scale: number = 1) => {
+  const drawMissile = (ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, color: string, scale: number = 1, outline: string | null = null) => {
     ctx.save();
     ctx.translate(x, y);
     ctx.rotate(angle);
@@ -331,21 +973,108 @@ export default function App() {
     ctx.fillStyle = color;
     ctx.beginPath();
     ctx.roundRect(-8, -2, 12, 4, 1);
-    ctx.fill();
-    ctx.beginPath();
     ctx.ellipse(4, 0, 6, 2, 0, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.beginPath();
     ctx.moveTo(-8, -2);
     ctx.lineTo(-12, -6);
     ctx.lineTo(-12, 6);
     ctx.lineTo(-8, 2);
     ctx.closePath();
     ctx.fill();
+    if (outline) {
+      ctx.strokeStyle = outline;
+      ctx.lineWidth = 1.5 / scale;
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+
+  // Colorblind palettes swap the interceptor's silhouette for a ringed diamond
+  const drawInterceptor = (ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, palette: Palette) => {
+    if (!palette.shapes) {
+      drawMissile(ctx, x, y, angle, palette.interceptor, 1);
+      return;
+    }
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(angle);
+    ctx.fillStyle = palette.interceptor;
+    ctx.beginPath();
+    ctx.moveTo(6, 0);
+    ctx.lineTo(0, -4);
+    ctx.lineTo(-6, 0);
+    ctx.lineTo(0, 4);
+    ctx.closePath();
+    ctx.fill();
+    ctx.strokeStyle = palette.interceptor;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.arc(0, 0, 9, 0, Math.PI * 2);
+    ctx.stroke();
     ctx.restore();
   };
 
-  const drawBattery = (ctx: CanvasRenderingContext2D, b: Battery) => {
+  // With effects on, rockets leave particle smoke; `lineTrail` draws the plain streak instead
+  const drawRocket = (ctx: CanvasRenderingContext2D, r: Rocket, palette: Palette, lineTrail: boolean) => {
+    const angle = Math.atan2(r.targetY - r.y, r.targetX - r.x);
+    const color = palette.rockets[r.kind];
+    const { outline } = palette;
+    const trail = (kindColor: string, length: number) => {
+      if (!lineTrail) return;
+      // Outlined palettes use one trail color so enemy trails read as a group
+      ctx.strokeStyle = palette.shapes ? palette.rocketTrail : kindColor;
+      ctx.beginPath();
+      ctx.moveTo(r.x, r.y);
+      ctx.lineTo(r.x - Math.cos(angle) * length, r.y - Math.sin(angle) * length);
+      ctx.stroke();
+    };
+    switch (r.kind) {
+      case 'dart':
+        // Small and fast: long thin streak
+        trail('rgba(244, 114, 182, 0.4)', 45);
+        drawMissile(ctx, r.x, r.y, angle, color, 1.2, outline);
+        break;
+      case 'armored':
+        trail('rgba(239, 68, 68, 0.3)', 20);
+        drawMissile(ctx, r.x, r.y, angle, color, 2.8, outline);
+        if (r.armor > 0) {
+          ctx.strokeStyle = '#94a3b8';
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          ctx.arc(r.x, r.y, 16, 0, Math.PI * 2);
+          ctx.stroke();
+          ctx.lineWidth = 1;
+        }
+        break;
+      case 'mirv':
+        trail('rgba(249, 115, 22, 0.3)', 24);
+        drawMissile(ctx, r.x, r.y, angle, color, 3.2, outline);
+        // Warhead pods
+        ctx.save();
+        ctx.translate(r.x, r.y);
+        ctx.rotate(angle);
+        ctx.fillStyle = '#fed7aa';
+        [-6, 0, 6].forEach(offset => {
+          ctx.beginPath();
+          ctx.arc(-4, offset, 2.5, 0, Math.PI * 2);
+          ctx.fill();
+        });
+        ctx.restore();
+        break;
+      case 'warhead':
+        trail('rgba(249, 115, 22, 0.3)', 14);
+        drawMissile(ctx, r.x, r.y, angle, color, 1.4, outline);
+        break;
+      case 'evader':
+        trail('rgba(168, 85, 247, 0.35)', 20);
+        drawMissile(ctx, r.x, r.y, angle, color, 2.2, outline);
+        break;
+      default:
+        trail('rgba(239, 68, 68, 0.3)', 20);
+        drawMissile(ctx, r.x, r.y, angle, color, 2.4, outline);
+    }
+  };
+
+  const drawBattery = (ctx: CanvasRenderingContext2D, b: Battery, glow: boolean) => {
     if (b.isDestroyed) {
       ctx.fillStyle = '#18181b';
       ctx.beginPath();
@@ -382,8 +1111,10 @@ export default function App() {
     ctx.strokeRect(-18, -28, 36, 28);
     
     // Glow effect for barrels
-    ctx.shadowBlur = 10;
-    ctx.shadowColor = '#10b981';
+    if (glow) {
+      ctx.shadowBlur = 10;
+      ctx.shadowColor = '#10b981';
+    }
     
     ctx.fillStyle = '#020617';
     for (let i = 0; i < 2; i++) {
@@ -407,8 +1138,24 @@ export default function App() {
     ctx.restore();
   };
 
-  const drawCityBuilding = (ctx: CanvasRenderingContext2D, c: City, index: number) => {
-    if (c.isDestroyed) {
+  // Follows the cursor, so it is drawn every frame rather than cached with the battery
+  const drawActiveMarker = (ctx: CanvasRenderingContext2D, b: Battery, color = '#34d399') => {
+    ctx.save();
+    ctx.translate(b.x, b.y - 18);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(-8, -44);
+    ctx.lineTo(0, -36);
+    ctx.lineTo(8, -44);
+    ctx.stroke();
+    ctx.strokeRect(-21, -31, 42, 34);
+    ctx.restore();
+  };
+
+  // `collapse` (0-1) draws a destroyed city still standing, sinking into the ground
+  const drawCityBuilding = (ctx: CanvasRenderingContext2D, c: City, index: number, collapse?: number) => {
+    if (c.isDestroyed && collapse === undefined) {
       ctx.fillStyle = '#18181b';
       ctx.beginPath();
       ctx.ellipse(c.x, c.y, 25, 5, 0, 0, Math.PI * 2);
@@ -417,6 +1164,13 @@ export default function App() {
     }
     ctx.save();
     ctx.translate(c.x, c.y);
+    if (collapse !== undefined) {
+      ctx.beginPath();
+      ctx.rect(-40, -120, 80, 120);
+      ctx.clip();
+      ctx.translate(0, collapse * collapse * 100);
+      ctx.rotate((index % 2 ? 1 : -1) * collapse * 0.15);
+    }
     const styles = [
       () => {
         ctx.fillStyle = '#78350f';
@@ -484,253 +1238,427 @@ export default function App() {
     ctx.restore();
   };
 
-  useEffect(() => {
-    if (status !== GameStatus.PLAYING) return;
-
-    let animationId: number;
-    const ctx = canvasRef.current?.getContext('2d');
-    if (!ctx) return;
-
-    const loop = () => {
-      const { width, height } = stateRef.current;
-      const now = Date.now();
-      const elapsed = (now - stateRef.current.levelStartTime) / 1000;
-      const remainingTime = Math.max(0, GAME_CONFIG.LEVEL_DURATION_SEC - elapsed);
-      setTimeLeft(Math.floor(remainingTime));
-
-      // 1. Update State
-      // Spawn Rockets based on remaining time and count
-      if (stateRef.current.rocketsToSpawn > 0 && remainingTime > 0) {
-        // progress within the level (0 to 1)
-        const progress = elapsed / GAME_CONFIG.LEVEL_DURATION_SEC;
-        // base rate to distribute remaining rockets over remaining frames (approx 60fps)
-        const baseRate = stateRef.current.rocketsToSpawn / (remainingTime * 60);
-        // weight increases from 0.4 to 1.6 to create a "gradual increase" feel
-        const weight = 0.4 + (progress * 1.2);
-        const expectedSpawnRate = baseRate * weight;
-
-        if (Math.random() < expectedSpawnRate) {
-          const targets = [
-            ...stateRef.current.cities.filter(c => !c.isDestroyed),
-            ...stateRef.current.batteries.filter(b => !b.isDestroyed)
-          ];
-          if (targets.length > 0) {
-            const target = targets[Math.floor(Math.random() * targets.length)];
-            stateRef.current.rockets.push({
-              id: Math.random().toString(36).substr(2, 9),
-              x: Math.random() * width,
-              y: 0,
-              targetX: target.x,
-              targetY: target.y,
-              speed: GAME_CONFIG.ROCKET_SPEED_MIN + Math.random() * (GAME_CONFIG.ROCKET_SPEED_MAX - GAME_CONFIG.ROCKET_SPEED_MIN),
-              progress: 0,
-              isDestroyed: false,
-            });
-            stateRef.current.rocketsToSpawn--;
-          }
-        }
+  // Advances particles, collapses and shake, and runs the continuous emitters:
+  // smoke behind every rocket and fires on every ruined city
+  const updateEffects = (dt: number) => {
+    const state = stateRef.current;
+    const high = settingsRef.current.quality === 'high';
+    const clock = emitClockRef.current;
+    clock.smoke += dt;
+    if (clock.smoke >= SMOKE_INTERVAL_MS) {
+      clock.smoke %= SMOKE_INTERVAL_MS;
+      for (const r of state.rockets) particles.smoke(r.x, r.y, high ? 900 : 450);
+    }
+    clock.fire += dt;
+    if (clock.fire >= FIRE_INTERVAL_MS) {
+      clock.fire %= FIRE_INTERVAL_MS;
+      for (const c of state.cities) {
+        if (!c.isDestroyed) continue;
+        particles.fire(c.x, c.y - 4);
+        if (high && Math.random() < 0.3) particles.smoke(c.x + (Math.random() - 0.5) * 20, c.y - 10, 1600, 5);
       }
+    }
+    for (const collapse of collapsesRef.current) {
+      collapse.age += dt;
+      const c = state.cities[collapse.index];
+      if (high) particles.smoke(c.x + (Math.random() - 0.5) * 40, c.y - 5, 1200, 6);
+    }
+    collapsesRef.current = collapsesRef.current.filter(c => c.age < COLLAPSE_MS);
+    shakeRef.current = shakeRef.current < 0.05 ? 0 : shakeRef.current * Math.exp(-dt / SHAKE_DECAY_MS);
+    particles.update(dt);
+  };
 
-      stateRef.current.rockets.forEach(r => {
-        const dx = r.targetX - r.x;
-        const dy = r.targetY - r.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        if (dist < r.speed) {
-          r.isDestroyed = true;
-          stateRef.current.cities.forEach(c => {
-            if (Math.abs(c.x - r.targetX) < 15 && Math.abs(c.y - r.targetY) < 15) c.isDestroyed = true;
-          });
-          stateRef.current.batteries.forEach(b => {
-            if (!b.isDestroyed && Math.abs(b.x - r.targetX) < 20 && Math.abs(b.y - r.targetY) < 20) {
-              b.health--;
-              if (b.health <= 0) {
-                b.health = 0;
-                b.isDestroyed = true;
-              }
-              setUiBatteries([...stateRef.current.batteries]);
-            }
-          });
-          playExplosionSound(audioCtxRef.current);
-          stateRef.current.explosions.push({
-            id: r.id, x: r.x, y: r.y, radius: 2, maxRadius: GAME_CONFIG.EXPLOSION_MAX_RADIUS, growthRate: GAME_CONFIG.EXPLOSION_GROWTH_RATE, isFinished: false, phase: 'growing'
-          });
-        } else {
-          r.x += (dx / dist) * r.speed;
-          r.y += (dy / dist) * r.speed;
-        }
-      });
-
-      stateRef.current.interceptors.forEach(i => {
-        i.x += i.vx;
-        i.y += i.vy;
-
-        // Check proximity with rockets
-        stateRef.current.rockets.forEach(r => {
-          if (!r.isDestroyed) {
-            const rDist = Math.sqrt(Math.pow(r.x - i.x, 2) + Math.pow(r.y - i.y, 2));
-            // Trigger explosion if within 3x rocket radius
-            if (rDist < GAME_CONFIG.ROCKET_BASE_RADIUS * 3) {
-              i.isExploded = true;
-              r.isDestroyed = true;
-              playExplosionSound(audioCtxRef.current);
-              stateRef.current.explosions.push({
-                id: i.id, 
-                x: i.x, 
-                y: i.y, 
-                radius: 2, 
-                maxRadius: GAME_CONFIG.EXPLOSION_MAX_RADIUS * GAME_CONFIG.COLLISION_EXPLOSION_MULTIPLIER, 
-                growthRate: GAME_CONFIG.EXPLOSION_GROWTH_RATE * 2, 
-                isFinished: false, 
-                phase: 'growing'
-              });
-              setScore(s => s + GAME_CONFIG.POINTS_PER_ROCKET);
-            }
-          }
-        });
-
-        // Remove if off screen
-        if (i.x < -50 || i.x > width + 50 || i.y < -50 || i.y > height + 50) {
-          i.isExploded = true; // Mark for removal
-        }
-      });
-
-      stateRef.current.explosions.forEach(e => {
-        if (e.phase === 'growing') {
-          e.radius += e.growthRate;
-          if (e.radius >= e.maxRadius) e.phase = 'shrinking';
-        } else {
-          e.radius -= e.growthRate * 0.5;
-          if (e.radius <= 0) e.isFinished = true;
-        }
-        stateRef.current.rockets.forEach(r => {
-          if (!r.isDestroyed) {
-            const dist = Math.sqrt(Math.pow(r.x - e.x, 2) + Math.pow(r.y - e.y, 2));
-            if (dist < e.radius) {
-              r.isDestroyed = true;
-              setScore(prev => prev + GAME_CONFIG.POINTS_PER_ROCKET);
-            }
-          }
-        });
-      });
+  // Sky, stars and skyline: fixed for the whole level
+  const drawBackground = (ctx: CanvasRenderingContext2D, twinkle: boolean) => {
+    const { width, height } = stateRef.current;
+    const skyGrad = ctx.createLinearGradient(0, 0, 0, height);
+    skyGrad.addColorStop(0, '#020617');
+    skyGrad.addColorStop(0.7, '#0f172a');
+    skyGrad.addColorStop(1, '#1e1b4b');
+    ctx.fillStyle = skyGrad;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#ffffff';
+    ctx.globalAlpha = 0.75;
+    sceneRef.current.stars.forEach(s => {
+      if (!(twinkle && s.twinkle)) ctx.fillRect(s.x, s.y, s.size, s.size);
+    });
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#020617';
+    sceneRef.current.silhouette.forEach(s => {
+      ctx.fillRect(s.x, s.y - s.h, s.w, s.h);
+    });
+    ctx.fillStyle = '#09090b';
+    ctx.fillRect(0, height - 20, width, 20);
+  };
 
-      stateRef.current.rockets = stateRef.current.rockets.filter(r => !r.isDestroyed);
-      stateRef.current.interceptors = stateRef.current.interceptors.filter(i => !i.isExploded);
-      stateRef.current.explosions = stateRef.current.explosions.filter(e => !e.isFinished);
+  // Draws the current state; also called on resize so a paused frame doesn't go blank
+  const renderFrame = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const vp = viewportRef.current;
+    if (!ctx || !vp) return;
+    const input = inputRef.current;
+    const state = stateRef.current;
+    const { width, height } = state;
 
-      // Check Win/Loss
-      if (stateRef.current.cities.every(c => c.isDestroyed)) {
-        setStatus(GameStatus.LOST);
-      } else if (stateRef.current.rocketsToSpawn === 0 && stateRef.current.rockets.length === 0) {
-        setStatus(GameStatus.LEVEL_COMPLETE);
-      }
+    // Letterbox bars, then clip to the world so nothing bleeds into them
+    setScreenTransform(ctx, vp);
+    ctx.fillStyle = '#09090b';
+    ctx.fillRect(0, 0, vp.cssWidth, vp.cssHeight);
+    ctx.save();
+    setWorldTransform(ctx, vp);
+    ctx.beginPath();
+    ctx.rect(0, 0, width, height);
+    ctx.clip();
 
-      // 2. Render
-      ctx.clearRect(0, 0, width, height);
-      const skyGrad = ctx.createLinearGradient(0, 0, 0, height);
-      skyGrad.addColorStop(0, '#020617');
-      skyGrad.addColorStop(0.7, '#0f172a');
-      skyGrad.addColorStop(1, '#1e1b4b');
-      ctx.fillStyle = skyGrad;
-      ctx.fillRect(0, 0, width, height);
+    // Static layers repaint only when their key or the viewport changes
+    const high = settingsRef.current.quality === 'high';
+    const twinkle = high && !reducedMotionRef.current;
+    backgroundLayer.update(vp, width, height, sceneVersionRef.current * 2 + (twinkle ? 1 : 0), layer => drawBackground(layer, twinkle));
+    structuresLayer.update(vp, width, height, structureKey(state, high), layer => {
+      state.cities.forEach((c, i) => drawCityBuilding(layer, c, i));
+      state.batteries.forEach(b => drawBattery(layer, b, high));
+    });
+    // Shake moves the whole world inside the fixed clip
+    const shake = shakeRef.current;
+    const sx = shake ? (Math.random() * 2 - 1) * shake : 0;
+    const sy = shake ? (Math.random() * 2 - 1) * shake : 0;
+    const toWorld = () => {
+      setWorldTransform(ctx, vp);
+      if (shake) ctx.translate(sx, sy);
+    };
+    backgroundLayer.blit(ctx, vp, sx, sy);
+    toWorld();
+    if (twinkle) {
       ctx.fillStyle = '#ffffff';
-      stateRef.current.stars.forEach(s => {
+      for (const s of sceneRef.current.stars) {
+        if (!s.twinkle) continue;
         ctx.globalAlpha = 0.5 + Math.random() * 0.5;
         ctx.fillRect(s.x, s.y, s.size, s.size);
-      });
+      }
       ctx.globalAlpha = 1;
-      ctx.fillStyle = '#020617';
-      stateRef.current.silhouette.forEach(s => {
-        ctx.fillRect(s.x, s.y - s.h, s.w, s.h);
-      });
-      ctx.fillStyle = '#09090b';
-      ctx.fillRect(0, height - 20, width, 20);
-      stateRef.current.cities.forEach((c, i) => drawCityBuilding(ctx, c, i));
-      stateRef.current.batteries.forEach(b => drawBattery(ctx, b));
-      stateRef.current.rockets.forEach(r => {
-        const angle = Math.atan2(r.targetY - r.y, r.targetX - r.x);
-        drawMissile(ctx, r.x, r.y, angle, '#ef4444', 2.4);
-        ctx.strokeStyle = 'rgba(239, 68, 68, 0.3)';
+    }
+    structuresLayer.blit(ctx, vp, sx, sy);
+    toWorld();
+
+    // Dynamic layer: everything that moves
+    const cursors = input?.cursors ?? [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+    const active = state.players !== 'solo'
+      ? resolveBattery(state, { ...cursors[0], mode: 'nearest', player: 0 })?.id ?? null
+      : settingsRef.current.fireMode === 'manual'
+        ? manualBatteryRef.current
+        : resolveBattery(state, makeFireCommand(cursors[0].x, cursors[0].y))?.id ?? null;
+    setActiveBatteryId(active);
+    const activeBattery = state.batteries.find(b => b.id === active && !b.isDestroyed);
+    if (activeBattery) drawActiveMarker(ctx, activeBattery);
+    if (state.players === 'coop') {
+      const second = resolveBattery(state, { ...cursors[1], mode: 'nearest', player: 1 });
+      if (second) drawActiveMarker(ctx, second, SECOND_PLAYER_COLOR);
+    }
+    const palette = PALETTES[settingsRef.current.accessibility.palette];
+    const effects = !reducedMotionRef.current;
+    collapsesRef.current.forEach(({ index, age }) => {
+      const c = state.cities[index];
+      if (c.isDestroyed) drawCityBuilding(ctx, c, index, age / COLLAPSE_MS);
+    });
+    if (effects) particles.draw(ctx);
+    stateRef.current.rockets.forEach(r => drawRocket(ctx, r, palette, !effects));
+    stateRef.current.interceptors.forEach(i => {
+      const angle = Math.atan2(i.vy, i.vx);
+      drawInterceptor(ctx, i.x, i.y, angle, palette);
+      ctx.strokeStyle = palette.interceptorTrail;
+      ctx.setLineDash([2, 2]);
+      ctx.beginPath();
+      ctx.moveTo(i.startX, i.startY);
+      ctx.lineTo(i.x, i.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    });
+    stateRef.current.explosions.forEach(e => {
+      if (!high) {
+        ctx.fillStyle = palette.explosion[1];
+        ctx.globalAlpha = 0.7;
         ctx.beginPath();
-        ctx.moveTo(r.x, r.y);
-        ctx.lineTo(r.x - Math.cos(angle) * 20, r.y - Math.sin(angle) * 20);
-        ctx.stroke();
-      });
-      stateRef.current.interceptors.forEach(i => {
-        const angle = Math.atan2(i.vy, i.vx);
-        drawMissile(ctx, i.x, i.y, angle, '#fbbf24', 1);
-        ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)';
-        ctx.setLineDash([2, 2]);
+        ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.globalAlpha = 1;
+        return;
+      }
+      const grad = ctx.createRadialGradient(e.x, e.y, 0, e.x, e.y, e.radius);
+      grad.addColorStop(0, '#ffffff');
+      grad.addColorStop(0.3, palette.explosion[0]);
+      grad.addColorStop(0.7, palette.explosion[1]);
+      grad.addColorStop(1, 'transparent');
+      ctx.fillStyle = grad;
+      ctx.beginPath();
+      ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    ctx.font = 'bold 14px "Space Grotesk", sans-serif';
+    ctx.textAlign = 'center';
+    floatersRef.current.forEach(f => {
+      const t = f.age / FLOATER_MS;
+      ctx.globalAlpha = 1 - t;
+      ctx.fillStyle = f.color;
+      ctx.fillText(f.text, f.x, f.y - t * 40);
+    });
+    ctx.globalAlpha = 1;
+
+    // Versus: the attacker's launch point on the top edge and the target it aims at
+    if (state.players === 'versus') {
+      const x = cursors[1].x;
+      const target = resolveAttackTarget(state, attackTargetRef.current, x);
+      const ready = state.rocketsToSpawn > 0 && state.tick >= state.nextLaunch;
+      ctx.strokeStyle = ATTACKER_COLOR;
+      ctx.fillStyle = ATTACKER_COLOR;
+      ctx.globalAlpha = ready ? 1 : 0.4;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(x - 10, 0);
+      ctx.lineTo(x + 10, 0);
+      ctx.lineTo(x, 14);
+      ctx.closePath();
+      ctx.fill();
+      if (target) {
+        ctx.setLineDash([6, 6]);
         ctx.beginPath();
-        ctx.moveTo(i.startX, i.startY);
-        ctx.lineTo(i.x, i.y);
+        ctx.moveTo(x, 14);
+        ctx.lineTo(target.x, target.y - 24);
         ctx.stroke();
         ctx.setLineDash([]);
+        ctx.strokeRect(target.x - 26, target.y - 50, 52, 56);
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    // Crosshair for keyboard / gamepad aiming; the second co-op player's is always up
+    const drawCrosshair = ({ x, y }: { x: number; y: number }, color: string) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.arc(x, y, 10, 0, Math.PI * 2);
+      ctx.moveTo(x - 16, y);
+      ctx.lineTo(x - 4, y);
+      ctx.moveTo(x + 4, y);
+      ctx.lineTo(x + 16, y);
+      ctx.moveTo(x, y - 16);
+      ctx.lineTo(x, y - 4);
+      ctx.moveTo(x, y + 4);
+      ctx.lineTo(x, y + 16);
+      ctx.stroke();
+    };
+    if (state.players === 'solo' && input?.crosshairVisible) drawCrosshair(cursors[0], 'rgba(52, 211, 153, 0.9)');
+    if (state.players === 'coop') drawCrosshair(cursors[1], SECOND_PLAYER_COLOR);
+    ctx.restore();
+  };
+
+  useEffect(() => {
+    if (status !== GameStatus.PLAYING) return;
+
+    let animationId: number;
+    let lastTime: number | null = null;
+
+    const loop = (time: number) => {
+      const dt = lastTime === null ? 0 : time - lastTime;
+      lastTime = time;
+
+      // 1. Update State
+      const input = inputRef.current;
+      input?.update(dt);
+      const inputs = toGameInputs(input?.drain() ?? []);
+      const player = replayPlayerRef.current;
+      if (player) {
+        handleEvents(player.advance(stateRef.current, dt));
+      } else {
+        const { tick } = stateRef.current;
+        inputs.fire?.forEach(cmd => recorderRef.current?.recordFire(tick, cmd));
+        inputs.launch?.forEach(cmd => recorderRef.current?.recordLaunch(tick, cmd));
+        handleEvents(step(stateRef.current, dt, inputs));
+      }
+      setTimeLeft(getClock(stateRef.current));
+      floatersRef.current.forEach(f => { f.age += dt; });
+      floatersRef.current = floatersRef.current.filter(f => f.age < FLOATER_MS);
+      if (!reducedMotionRef.current) updateEffects(dt);
+
+      // 2. Render
+      renderFrame();
+      animationId = requestAnimationFrame(loop);
+    };
+    animationId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(animationId);
+  }, [status, level, settings.fireMode]);
+
+  // Attract mode: the autopilot plays demo levels behind the start screen.
+  // Nothing here scores, records or makes a sound; with reduced motion the
+  // start screen keeps its still backdrop instead.
+  const attract = !reducedMotion;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (status !== GameStatus.START || !attract || !canvas) return;
+
+    const autopilot = createAutopilot();
+    let demo = 0;
+    let demoState: GameState;
+    const startDemo = () => {
+      const level = ATTRACT_LEVELS[demo++ % ATTRACT_LEVELS.length];
+      demoState = createLevelState({
+        level,
+        width: GAME_CONFIG.WORLD_WIDTH,
+        height: GAME_CONFIG.WORLD_HEIGHT,
+        seed: createSeed(),
+        waves: getLevelWaves(level),
       });
-      stateRef.current.explosions.forEach(e => {
-        const grad = ctx.createRadialGradient(e.x, e.y, 0, e.x, e.y, e.radius);
-        grad.addColorStop(0, '#ffffff');
-        grad.addColorStop(0.3, '#fbbf24');
-        grad.addColorStop(0.7, '#ef4444');
-        grad.addColorStop(1, 'transparent');
-        ctx.fillStyle = grad;
-        ctx.beginPath();
-        ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
-        ctx.fill();
-      });
+      prepareScene(canvas, demoState);
+      autopilot.reset();
+    };
+    startDemo();
+
+    let animationId: number;
+    let lastTime: number | null = null;
+    let finishedFor = 0;
+    const loop = (time: number) => {
+      // A real game or a resumed save took over before this effect was torn down
+      if (stateRef.current !== demoState) return;
+      const dt = lastTime === null ? 0 : time - lastTime;
+      lastTime = time;
+      const state = demoState;
+      if (state.outcome === 'playing') {
+        step(state, dt, { fire: autopilot.decide(state) });
+      } else if ((finishedFor += dt) >= ATTRACT_PAUSE_MS) {
+        finishedFor = 0;
+        startDemo();
+      }
+      updateEffects(dt);
+      renderFrame();
       animationId = requestAnimationFrame(loop);
     };
     animationId = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(animationId);
-  }, [status, level]);
+  }, [status, attract]);
 
   return (
-    <div className="relative w-full h-screen bg-zinc-950 overflow-hidden font-sans">
-      <div className="scanline" />
+    <div className={`relative w-full h-screen bg-zinc-950 overflow-hidden font-sans ${settings.accessibility.highContrast ? 'high-contrast' : ''}`}>
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+      {!reducedMotion && <div className="scanline" />}
       <div className="absolute inset-0 pointer-events-none opacity-20" 
            style={{ backgroundImage: 'radial-gradient(circle at 2px 2px, rgba(255,255,255,0.05) 1px, transparent 0)', backgroundSize: '40px 40px' }} />
       
       <canvas 
         ref={canvasRef}
         className="game-canvas w-full h-full cursor-crosshair"
-        onClick={handleCanvasClick}
-        onTouchStart={handleCanvasClick}
       />
 
       {/* HUD */}
       <div className="absolute top-0 left-0 w-full p-6 flex justify-between items-start pointer-events-none">
         <div className="flex flex-col gap-3">
           <div className="glass-panel p-4 rounded-2xl neon-border min-w-[160px]">
-            <div className="text-[10px] uppercase tracking-[0.2em] text-emerald-500/70 font-bold mb-1 font-display">Tactical Score</div>
-            <div className="text-3xl font-display font-medium text-white tabular-nums tracking-tight">{score.toLocaleString()}</div>
+            <div className="text-[10px] uppercase tracking-[0.2em] text-emerald-500/70 font-bold mb-1 font-display">{t('tacticalScore')}</div>
+            <div className="text-3xl font-display font-medium text-white tabular-nums tracking-tight">{formatNumber(score)}</div>
           </div>
+          {players !== 'solo' && (
+            <div className="glass-panel px-4 py-2 rounded-xl flex items-center gap-3 border-white/10">
+              <Users className="w-4 h-4 text-zinc-400" />
+              {playerResults.map((r, i) => (
+                <div key={i} className="text-xs font-mono text-zinc-400 uppercase tracking-wider">
+                  {t('playerShort', { n: i + 1 })}{' '}
+                  <span className={`font-bold ${i === 0 ? 'text-emerald-400' : players === 'versus' ? 'text-rose-400' : 'text-sky-400'}`}>{formatNumber(r.score)}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="glass-panel px-4 py-2 rounded-xl flex items-center gap-3 border-emerald-500/20">
             <Target className="w-4 h-4 text-emerald-400" />
             <div className="text-xs font-mono text-zinc-400 uppercase tracking-wider">
-              {t.level} <span className="text-white font-bold">{level}</span> | {t.rocketsLeft} <span className="text-white font-bold">{stateRef.current.rocketsToSpawn + stateRef.current.rockets.length}</span>
+              {t('level')} <span className="text-white font-bold">{level}</span> | {t('rocketsLeft')} <span className="text-white font-bold">{stateRef.current.rocketsToSpawn + stateRef.current.rockets.length}</span>
+            </div>
+          </div>
+          <div className="glass-panel px-4 py-2 rounded-xl flex items-center gap-3 border-sky-500/20">
+            <Building2 className="w-4 h-4 text-sky-400" />
+            <div className="text-xs font-mono text-zinc-400 uppercase tracking-wider">
+              {t('reserve')} <span className="text-white font-bold">{reserveCities}</span>
+            </div>
+            <div className="h-1.5 w-12 rounded-full bg-zinc-900/80 overflow-hidden" title={formatNumber(GAME_CONFIG.BONUS_CITY_POINTS)}>
+              <div
+                className="h-full bg-sky-400"
+                style={{ width: `${(stateRef.current.bonusProgress / GAME_CONFIG.BONUS_CITY_POINTS) * 100}%` }}
+              />
             </div>
           </div>
+          {isReplay && (
+            <div className="glass-panel px-4 py-2 rounded-xl flex items-center gap-3 border-amber-500/30">
+              <Film className="w-4 h-4 text-amber-400" />
+              <div className="text-xs font-mono text-amber-400 uppercase tracking-wider font-bold">{t('replay')}</div>
+            </div>
+          )}
         </div>
 
         <div className="flex flex-col items-end gap-3">
           <div className="glass-panel p-4 rounded-2xl min-w-[120px] text-center border-white/5">
-            <div className="text-[10px] uppercase tracking-[0.2em] text-zinc-500 font-bold mb-1 font-display">Operation Time</div>
-            <div className={`text-3xl font-display font-medium tabular-nums ${timeLeft < 10 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+            <div className="text-[10px] uppercase tracking-[0.2em] text-zinc-500 font-bold mb-1 font-display">
+              {mode === 'campaign' ? t('operationTime') : t('survived')}
+            </div>
+            <div className={`text-3xl font-display font-medium tabular-nums ${mode === 'campaign' && timeLeft < 10 ? `text-red-500 ${reducedMotion ? '' : 'animate-pulse'}` : 'text-white'}`}>
               {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
             </div>
+            {mode !== 'campaign' && (
+              <div className="text-[10px] uppercase tracking-[0.2em] text-zinc-500 font-bold mt-1 font-display">
+                {t('minute', { n: Math.floor(timeLeft / 60) + 1 })}
+              </div>
+            )}
           </div>
+          {status === GameStatus.PLAYING && (
+            <button 
+              onClick={pauseGame}
+              className="pointer-events-auto glass-panel hover:bg-white/10 p-3 rounded-full transition-all active:scale-90"
+            >
+              <Pause className="w-5 h-5 text-zinc-300" />
+            </button>
+          )}
+          {/* Two-player defenders always fire from their nearest battery */}
+          {players === 'solo' && (
+            <button 
+              onClick={cycleFireMode}
+              title={t('fireMode')}
+              className="pointer-events-auto glass-panel hover:bg-white/10 px-4 py-3 rounded-full transition-all active:scale-90 flex items-center gap-2"
+            >
+              <Crosshair className="w-5 h-5 text-emerald-400" />
+              <span className="text-[10px] font-mono text-zinc-300 uppercase tracking-[0.15em] font-bold">{t(`fireModes.${settings.fireMode}`)}</span>
+            </button>
+          )}
           <button 
-            onClick={() => setLang(l => l === 'en' ? 'cn' : 'en')}
+            onClick={toggleMute}
+            title={settings.audio.muted ? t('unmute') : t('mute')}
             className="pointer-events-auto glass-panel hover:bg-white/10 p-3 rounded-full transition-all active:scale-90"
+          >
+            {settings.audio.muted ? <VolumeX className="w-5 h-5 text-zinc-500" /> : <Volume2 className="w-5 h-5 text-zinc-300" />}
+          </button>
+          <button 
+            onClick={() => setSettings(s => ({ ...s, locale: nextLocale(locale) }))}
+            title={t('language')}
+            className="pointer-events-auto glass-panel hover:bg-white/10 px-4 py-3 rounded-full transition-all active:scale-90 flex items-center gap-2"
           >
             <Languages className="w-5 h-5 text-zinc-300" />
+            <span className="text-[10px] font-mono text-zinc-300 uppercase tracking-[0.15em] font-bold">{LOCALES[locale].label}</span>
           </button>
         </div>
       </div>
 
+      {briefing && settings.briefings && (status === GameStatus.PLAYING || status === GameStatus.PAUSED) && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 w-full max-w-sm px-4 pointer-events-none">
+          <Transmission
+            title={t('briefing')}
+            text={briefing.text && pickLanguage(briefing.text, locale)}
+            onDismiss={() => setBriefing(null)}
+            labels={{ waiting: t('transmissionWaiting'), dismiss: t('dismiss') }}
+          />
+        </div>
+      )}
+
       {/* Ammo & Health HUD Bottom */}
       <div className="absolute bottom-12 left-0 w-full px-12 flex justify-between pointer-events-none">
         {uiBatteries.map((b) => (
-          <div key={b.id} className="flex flex-col items-center gap-3">
+          <div key={b.id} className={`flex flex-col items-center gap-3 rounded-2xl px-3 py-2 border transition-all ${b.id === activeBatteryId ? 'border-emerald-400/50 bg-emerald-500/10' : 'border-transparent'}`}>
             {/* Health Bar */}
             <div className="flex gap-1.5">
               {Array.from({ length: b.maxHealth }).map((_, i) => (
@@ -750,7 +1678,14 @@ export default function App() {
                   transition={{ type: 'spring', stiffness: 50 }}
                 />
               </div>
-              <div className="text-[9px] font-mono text-zinc-500 uppercase tracking-[0.15em] font-bold">{t.ammo} {b.ammo}</div>
+              <div className="text-[9px] font-mono text-zinc-500 uppercase tracking-[0.15em] font-bold">
+                {players === 'coop' && (
+                  <span className={getBatteryOwner(stateRef.current, b) ? 'text-sky-400' : 'text-emerald-400'}>
+                    {t('playerShort', { n: getBatteryOwner(stateRef.current, b) + 1 })}{' '}
+                  </span>
+                )}
+                {t('ammo')} {b.ammo}
+              </div>
             </div>
           </div>
         ))}
@@ -763,10 +1698,10 @@ export default function App() {
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
-            className="absolute inset-0 bg-zinc-950 flex items-center justify-center p-6 z-50 overflow-hidden"
+            className={`absolute inset-0 flex items-center justify-center p-6 z-50 overflow-hidden ${attract ? 'bg-zinc-950/70' : 'bg-zinc-950'}`}
           >
-            {/* Start Screen Background - Detailed City */}
-            <div className="absolute inset-0 pointer-events-none">
+            {/* Start Screen Background - Detailed City, unless the attract demo is playing behind */}
+            {!attract && <div className="absolute inset-0 pointer-events-none">
               {/* Background Image Layer for HD feel */}
               <img 
                 src="https://images.unsplash.com/photo-1477959858617-67f85cf4f1df?auto=format&fit=crop&w=1920&q=80" 
@@ -791,7 +1726,7 @@ export default function App() {
                       {/* Antennae */}
                       {Math.random() > 0.5 && (
                         <div className="absolute top-[-20px] left-1/2 -translate-x-1/2 w-px h-5 bg-zinc-600">
-                          <div className="absolute top-0 left-1/2 -translate-x-1/2 w-1.5 h-1.5 bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.8)] animate-pulse rounded-full" />
+                          <div className={`absolute top-0 left-1/2 -translate-x-1/2 w-1.5 h-1.5 bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.8)] ${reducedMotion ? '' : 'animate-pulse'} rounded-full`} />
                         </div>
                       )}
                       
@@ -808,14 +1743,29 @@ export default function App() {
                   );
                 })}
               </div>
-            </div>
+            </div>}
 
             {/* UFOs */}
-            <UFO size={220} top="15%" left="10%" delay={0.5} />
-            <UFO size={80} top="10%" left="70%" delay={1.2} />
-            <UFO size={50} top="30%" left="80%" delay={1.8} />
+            <UFO size={220} top="15%" left="10%" delay={0.5} still={reducedMotion} />
+            <UFO size={80} top="10%" left="70%" delay={1.2} still={reducedMotion} />
+            <UFO size={50} top="30%" left="80%" delay={1.8} still={reducedMotion} />
 
-            <div className="max-w-2xl w-full text-center space-y-12 z-20">
+            {showLeaderboard && (
+              <LeaderboardPanel
+                onClose={() => setShowLeaderboard(false)}
+                formatNumber={formatNumber}
+                labels={{
+                  leaderboard: t('leaderboard'),
+                  global: t('global'),
+                  level: t('level'),
+                  mine: t('mine'),
+                  offline: t('leaderboardOffline'),
+                  empty: t('noRuns'),
+                }}
+              />
+            )}
+
+            <div className="max-w-2xl w-full text-center space-y-8 z-20">
               <motion.div
                 initial={{ y: 40, opacity: 0 }}
                 animate={{ y: 0, opacity: 1 }}
@@ -828,7 +1778,7 @@ export default function App() {
                 </h1>
                 <div className="h-px w-24 bg-emerald-500 mx-auto my-8" />
                 <p className="text-zinc-400 font-display text-sm tracking-[0.3em] uppercase max-w-md mx-auto leading-relaxed">
-                  {t.instructions}
+                  {t('instructions')}
                 </p>
               </motion.div>
               <motion.button
@@ -837,12 +1787,198 @@ export default function App() {
                 transition={{ delay: 0.4 }}
                 whileHover={{ scale: 1.05, boxShadow: '0 0 30px rgba(16,185,129,0.2)' }}
                 whileTap={{ scale: 0.95 }}
-                onClick={startGame}
+                onClick={() => startGame()}
                 className="group relative inline-flex items-center gap-4 bg-emerald-500 text-black px-12 py-5 rounded-full font-bold text-xl overflow-hidden transition-all font-display"
               >
                 <Play className="w-6 h-6 fill-current" />
-                <span className="tracking-tight">{t.start}</span>
+                <span className="tracking-tight">{t('start')}</span>
               </motion.button>
+              {savedRun && (
+                <div>
+                  <button
+                    onClick={() => resumeRun(savedRun)}
+                    className="inline-flex flex-col items-center glass-panel neon-border text-white px-8 py-3 rounded-2xl font-display hover:bg-white/10 transition-all active:scale-95"
+                  >
+                    <span className="inline-flex items-center gap-3 font-bold">
+                      <History className="w-5 h-5 text-emerald-400" />
+                      {t('resumeMission')}
+                    </span>
+                    <span className="text-[10px] uppercase tracking-[0.15em] text-zinc-500">
+                      {savedRun.mode === 'campaign' ? `${t('level')} ${savedRun.level}` : t(savedRun.mode)} · {formatNumber(savedRun.score)}
+                    </span>
+                  </button>
+                </div>
+              )}
+              {progress.unlockedLevel > 1 && (
+                <div>
+                  <button
+                    onClick={() => startGame(progress.unlockedLevel)}
+                    className="inline-flex items-center gap-3 glass-panel text-white px-8 py-3 rounded-full font-bold font-display hover:bg-white/10 transition-all active:scale-95"
+                  >
+                    <FastForward className="w-5 h-5" />
+                    {t('continueLevel', { n: progress.unlockedLevel })}
+                  </button>
+                </div>
+              )}
+              <div className="glass-panel max-w-md mx-auto p-5 rounded-3xl space-y-4 text-left">
+                <Choice
+                  label={t('players')}
+                  options={[['solo', t('players.solo')], ['coop', t('players.coop')], ['versus', t('players.versus')]]}
+                  value={players}
+                  onSelect={setPlayers}
+                />
+                {players !== 'solo' && (
+                  <p className="text-xs text-zinc-400 font-display leading-relaxed">{t(`players.${players}.hint`)}</p>
+                )}
+                <Choice
+                  label={t('difficulty')}
+                  options={(Object.keys(DIFFICULTIES) as DifficultyId[]).map((id): [DifficultyId, string] => [id, t(`difficulty.${id}`)])}
+                  value={settings.difficulty}
+                  onSelect={difficulty => setSettings(s => ({ ...s, difficulty }))}
+                />
+                <Choice
+                  label={t('adaptive')}
+                  options={[['on', t('on')], ['off', t('off')]]}
+                  value={settings.adaptive ? 'on' : 'off'}
+                  onSelect={value => setSettings(s => ({ ...s, adaptive: value === 'on' }))}
+                />
+              </div>
+              <LevelSelect progress={progress} title={t('levelSelect')} bestLabel={t('best')} formatNumber={formatNumber} onSelect={level => startGame(level)} />
+              {/* Survival records and the daily challenge are single-player */}
+              {players === 'solo' && <div className="flex flex-wrap justify-center gap-3">
+                <button
+                  onClick={() => startGame(1, 'endless')}
+                  className="inline-flex flex-col items-center glass-panel text-white px-6 py-3 rounded-2xl font-display hover:bg-white/10 transition-all active:scale-95"
+                >
+                  <span className="inline-flex items-center gap-2 font-bold">
+                    <InfinityIcon className="w-5 h-5" />
+                    {t('endless')}
+                  </span>
+                  <span className="text-[10px] uppercase tracking-[0.15em] text-zinc-500">
+                    {t('bestScore', { score: modeRecords.endless.bestScore })}
+                  </span>
+                </button>
+                <button
+                  onClick={() => startGame(1, 'daily')}
+                  className="inline-flex flex-col items-center glass-panel text-white px-6 py-3 rounded-2xl font-display hover:bg-white/10 transition-all active:scale-95"
+                >
+                  <span className="inline-flex items-center gap-2 font-bold">
+                    <CalendarDays className="w-5 h-5" />
+                    {t('daily')}
+                  </span>
+                  <span className="text-[10px] uppercase tracking-[0.15em] text-zinc-500">
+                    {hasPlayedDaily(modeRecords, getDailyDate())
+                      ? `${t('dailyPlayed')} · ${formatNumber(modeRecords.daily.lastScore)}`
+                      : `${getDailyDate()} · ${t('bestScore', { score: modeRecords.daily.bestScore })}`}
+                  </span>
+                </button>
+              </div>}
+              <div className="flex flex-col items-center gap-3">
+                <button
+                  onClick={() => replayInputRef.current?.click()}
+                  className="inline-flex items-center gap-2 text-zinc-400 hover:text-white text-sm font-display uppercase tracking-[0.2em] transition-colors"
+                >
+                  <Film className="w-4 h-4" />
+                  {t('watchReplay')}
+                </button>
+                <button
+                  onClick={() => setShowAccessibility(v => !v)}
+                  aria-expanded={showAccessibility}
+                  className="inline-flex items-center gap-2 text-zinc-400 hover:text-white text-sm font-display uppercase tracking-[0.2em] transition-colors"
+                >
+                  <Accessibility className="w-4 h-4" />
+                  {t('accessibility')}
+                </button>
+                {showAccessibility && <div className="w-full max-w-md">{displayPanel}</div>}
+                <button
+                  onClick={() => setShowLeaderboard(true)}
+                  className="inline-flex items-center gap-2 text-zinc-400 hover:text-white text-sm font-display uppercase tracking-[0.2em] transition-colors"
+                >
+                  <ListOrdered className="w-4 h-4" />
+                  {t('leaderboard')}
+                </button>
+                <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+                {replayError && <p className="text-red-400 text-xs font-mono max-w-md">{replayError}</p>}
+              </div>
+            </div>
+          </motion.div>
+        )}
+
+        {status === GameStatus.ARMORY && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/90 backdrop-blur-2xl flex items-center justify-center p-6 z-50"
+          >
+            <Armory
+              score={score}
+              loadout={loadout}
+              onBuy={buyItem}
+              onDeploy={handleNextLevel}
+              formatNumber={formatNumber}
+              labels={{
+                armory: t('armory'),
+                armoryMsg: t('armoryMsg'),
+                repairs: t('repairs'),
+                rebuild: t('rebuild'),
+                upgrades: t('upgrades'),
+                deploy: t('deploy'),
+                maxed: t('maxed'),
+                city: t('city'),
+                batteryNames: [t('battery.left'), t('battery.center'), t('battery.right')],
+                upgradeNames: {
+                  ammo: t('upgrade.ammo'),
+                  blastRadius: t('upgrade.blastRadius'),
+                  interceptorSpeed: t('upgrade.interceptorSpeed'),
+                  blastDuration: t('upgrade.blastDuration'),
+                },
+              }}
+            />
+          </motion.div>
+        )}
+
+        {status === GameStatus.PAUSED && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/70 backdrop-blur-xl flex items-center justify-center p-6 z-50"
+          >
+            <div className="max-w-md w-full glass-panel p-10 rounded-[2.5rem] text-center space-y-8 max-h-[92vh] overflow-y-auto shadow-2xl border-white/10">
+              <div className="space-y-3">
+                <h2 className="text-4xl font-display font-bold text-white tracking-tight">{t('paused')}</h2>
+                <p className="text-zinc-400 text-base font-display">{t('pausedMsg')}</p>
+              </div>
+              <VolumeControls
+                audio={settings.audio}
+                onChange={audio => setSettings(s => ({ ...s, audio }))}
+                labels={{ master: t('volumeMaster'), sfx: t('volumeSfx'), music: t('volumeMusic'), mute: t('mute'), unmute: t('unmute') }}
+              />
+              {displayPanel}
+              <div className="flex flex-col gap-4">
+                <button
+                  onClick={resumeGame}
+                  className="w-full flex items-center justify-center gap-3 bg-emerald-500 text-black py-5 rounded-2xl font-bold text-lg hover:bg-emerald-400 transition-all font-display shadow-lg shadow-emerald-500/20"
+                >
+                  <Play className="w-6 h-6 fill-current" />
+                  {t('resume')}
+                </button>
+                <button
+                  onClick={restartLevel}
+                  className="w-full flex items-center justify-center gap-3 bg-white text-black py-5 rounded-2xl font-bold text-lg hover:bg-zinc-200 transition-all font-display"
+                >
+                  <RotateCcw className="w-6 h-6" />
+                  {t('restartLevel')}
+                </button>
+                <button
+                  onClick={endGame}
+                  className="w-full flex items-center justify-center gap-3 bg-zinc-900 text-white py-5 rounded-2xl font-bold text-lg hover:bg-zinc-800 transition-all font-display border border-white/5"
+                >
+                  <LogOut className="w-6 h-6" />
+                  {t('endGame')}
+                </button>
+              </div>
             </div>
           </motion.div>
         )}
@@ -853,7 +1989,7 @@ export default function App() {
             animate={{ opacity: 1 }}
             className="absolute inset-0 bg-black/90 backdrop-blur-2xl flex items-center justify-center p-6 z-50"
           >
-            <div className="max-w-md w-full glass-panel p-10 rounded-[2.5rem] text-center space-y-8 shadow-2xl border-white/10">
+            <div className="max-w-md w-full glass-panel p-10 rounded-[2.5rem] text-center space-y-8 max-h-[92vh] overflow-y-auto shadow-2xl border-white/10">
               <motion.div 
                 initial={{ scale: 0, rotate: -180 }}
                 animate={{ scale: 1, rotate: 0 }}
@@ -863,38 +1999,117 @@ export default function App() {
               </motion.div>
               <div className="space-y-3">
                 <h2 className="text-4xl font-display font-bold text-white tracking-tight">
-                  {status === GameStatus.LEVEL_COMPLETE ? t.levelComplete : (status === GameStatus.WON ? t.win : t.loss)}
+                  {status === GameStatus.LEVEL_COMPLETE ? t('levelComplete') : (status === GameStatus.WON ? t('win') : t('loss'))}
                 </h2>
-                <p className="text-zinc-400 text-base font-display">{status !== GameStatus.LOST ? t.winMsg : t.lossMsg}</p>
+                <p className="text-zinc-400 text-base font-display">{status === GameStatus.WON ? t('victoryMsg') : (status !== GameStatus.LOST ? t('winMsg') : t('lossMsg'))}</p>
               </div>
               <div className="bg-white/5 p-6 rounded-3xl border border-white/5">
-                <div className="text-[11px] uppercase tracking-[0.2em] text-zinc-500 font-bold mb-2 font-display">Final Score</div>
-                <div className="text-5xl font-display font-bold text-white tabular-nums">{score.toLocaleString()}</div>
+                <div className="text-[11px] uppercase tracking-[0.2em] text-zinc-500 font-bold mb-2 font-display">{t('finalScore')}</div>
+                <div className="text-5xl font-display font-bold text-white tabular-nums">{formatNumber(score)}</div>
+                {mode !== 'campaign' && status === GameStatus.LOST && (
+                  <div className="text-sm text-zinc-400 mt-2 font-display">{t('survivedMinutes', { count: Math.floor(timeLeft / 60) })}</div>
+                )}
+                {mode !== 'campaign' && (
+                  <div className="text-[11px] uppercase tracking-[0.2em] text-zinc-500 font-bold mt-2 font-display">
+                    {mode === 'endless' ? t('endless') : t('daily')} ·{' '}
+                    {t('bestScore', { score: mode === 'endless' ? modeRecords.endless.bestScore : modeRecords.daily.bestScore })}
+                    {mode === 'daily' && !dailyScoredRef.current && ` · ${t('dailyPractice')}`}
+                  </div>
+                )}
+                {/* The public board ranks campaign runs at standard difficulty only */}
+                {(status === GameStatus.WON || status === GameStatus.LOST) && !isReplay && mode === 'campaign' && players === 'solo' && settings.difficulty === 'normal' && !settings.adaptive && (
+                  <SubmitScore
+                    run={{
+                      score,
+                      levelReached: level,
+                      durationSec: Math.round(runTicksRef.current / GAME_CONFIG.TICKS_PER_SECOND),
+                      gameVersion: GAME_VERSION,
+                    }}
+                    labels={{ callsign: t('callsign'), submit: t('submitScore'), rank: t('rank'), offline: t('leaderboardOffline') }}
+                  />
+                )}
               </div>
+              {players !== 'solo' && (
+                <PlayerResults
+                  players={playerResults.map((r, i) => {
+                    const attacker = players === 'versus' && i === 1;
+                    return {
+                      name: t('player', { n: i + 1 }),
+                      role: attacker ? t('attacker') : t('defender'),
+                      score: r.score,
+                      stats: attacker
+                        ? [[t('launched'), r.shots], [t('strikes'), r.hits]]
+                        : [[t('shotsFired'), r.shots], [t('kills'), r.hits]],
+                    };
+                  })}
+                  winner={players !== 'versus' ? undefined : status === GameStatus.LOST ? 1 : status === GameStatus.WON ? 0 : undefined}
+                  formatNumber={formatNumber}
+                  labels={{ score: t('score'), winner: t('winner') }}
+                />
+              )}
+              {levelResult && (
+                <LevelSummary
+                  stats={levelResult.stats}
+                  director={levelResult.director}
+                  tally={levelResult.tally}
+                  formatNumber={formatNumber}
+                  labels={{
+                    cityBonus: t('cityBonus'),
+                    ammoBonus: t('ammoBonus'),
+                    bonusTotal: t('bonusTotal'),
+                    shotsFired: t('shotsFired'),
+                    hits: t('hits'),
+                    accuracy: t('accuracy'),
+                    kills: t('kills'),
+                    rocketsThrough: t('rocketsThrough'),
+                    bestChain: t('bestChain'),
+                    director: t('director'),
+                    directorRate: t('directorRate'),
+                    directorSpeed: t('directorSpeed'),
+                    directorAdjustments: t('directorAdjustments'),
+                  }}
+                />
+              )}
+              {report && settings.briefings && (
+                <Transmission
+                  title={t('report')}
+                  text={report.text && pickLanguage(report.text, locale)}
+                  labels={{ waiting: t('transmissionWaiting'), dismiss: t('dismiss') }}
+                />
+              )}
               <div className="flex flex-col gap-4">
-                {status === GameStatus.LEVEL_COMPLETE && (
+                {status === GameStatus.LEVEL_COMPLETE && hasNextReplayLevel() && (
                   <button
-                    onClick={handleNextLevel}
+                    onClick={openArmory}
                     className="w-full flex items-center justify-center gap-3 bg-emerald-500 text-black py-5 rounded-2xl font-bold text-lg hover:bg-emerald-400 transition-all font-display shadow-lg shadow-emerald-500/20"
                   >
                     <Play className="w-6 h-6 fill-current" />
-                    {t.nextLevel}
+                    {t('nextLevel')}
                   </button>
                 )}
                 <button
-                  onClick={startGame}
+                  onClick={() => startGame(1, mode)}
                   className="w-full flex items-center justify-center gap-3 bg-white text-black py-5 rounded-2xl font-bold text-lg hover:bg-zinc-200 transition-all font-display"
                 >
                   <RotateCcw className="w-6 h-6" />
-                  {t.restart}
+                  {mode === 'campaign' ? t('restart') : t('playAgain')}
                 </button>
                 <button
                   onClick={endGame}
                   className="w-full flex items-center justify-center gap-3 bg-zinc-900 text-white py-5 rounded-2xl font-bold text-lg hover:bg-zinc-800 transition-all font-display border border-white/5"
                 >
                   <RotateCcw className="w-6 h-6" />
-                  {t.endGame}
+                  {t('endGame')}
                 </button>
+                {!isReplay && (
+                  <button
+                    onClick={downloadReplay}
+                    className="w-full flex items-center justify-center gap-3 text-zinc-400 hover:text-white py-2 font-bold text-sm uppercase tracking-[0.2em] transition-colors font-display"
+                  >
+                    <Download className="w-4 h-4" />
+                    {t('saveReplay')}
+                  </button>
+                )}
               </div>
             </div>
           </motion.div>
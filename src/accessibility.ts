@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { RocketKind } from './types';
+
+// Canvas colors for friend and foe. The colorblind palettes keep the two sides
+// apart by hue pairs that stay distinct under the named deficiency, and turn
+// on `shapes` so the renderer adds outlines and a different interceptor
+// silhouette: color is never the only cue.
+
+export type PaletteId = 'default' | 'redGreen' | 'blueYellow';
+export type MotionPreference = 'system' | 'reduced' | 'full';
+
+export const MOTION_PREFERENCES: MotionPreference[] = ['system', 'reduced', 'full'];
+
+export interface Palette {
+  interceptor: string;
+  interceptorTrail: string;
+  rockets: Record<RocketKind, string>;
+  rocketTrail: string;
+  outline: string | null; // stroke around enemy missiles
+  shapes: boolean;
+  explosion: [string, string]; // inner, outer
+}
+
+export const PALETTES: Record<PaletteId, Palette> = {
+  default: {
+    interceptor: '#fbbf24',
+    interceptorTrail: 'rgba(251, 191, 36, 0.5)',
+    rockets: {
+      standard: '#ef4444',
+      dart: '#f472b6',
+      armored: '#7f1d1d',
+      mirv: '#f97316',
+      warhead: '#fb923c',
+      evader: '#a855f7',
+    },
+    rocketTrail: 'rgba(239, 68, 68, 0.3)',
+    outline: null,
+    shapes: false,
+    explosion: ['#fbbf24', '#ef4444'],
+  },
+  // Deuteranopia and protanopia: blue against orange
+  redGreen: {
+    interceptor: '#38bdf8',
+    interceptorTrail: 'rgba(56, 189, 248, 0.6)',
+    rockets: {
+      standard: '#f59e0b',
+      dart: '#fde047',
+      armored: '#b45309',
+      mirv: '#f59e0b',
+      warhead: '#fcd34d',
+      evader: '#fef3c7',
+    },
+    rocketTrail: 'rgba(245, 158, 11, 0.35)',
+    outline: '#ffffff',
+    shapes: true,
+    explosion: ['#e0f2fe', '#38bdf8'],
+  },
+  // Tritanopia: teal against magenta
+  blueYellow: {
+    interceptor: '#2dd4bf',
+    interceptorTrail: 'rgba(45, 212, 191, 0.6)',
+    rockets: {
+      standard: '#ec4899',
+      dart: '#f9a8d4',
+      armored: '#9d174d',
+      mirv: '#db2777',
+      warhead: '#f472b6',
+      evader: '#fbcfe8',
+    },
+    rocketTrail: 'rgba(236, 72, 153, 0.35)',
+    outline: '#ffffff',
+    shapes: true,
+    explosion: ['#ccfbf1', '#2dd4bf'],
+  },
+};
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const systemPrefersReducedMotion = () =>
+  typeof window !== 'undefined' && !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches;
+
+// Whether to cut decorative motion: the player's override, else the OS setting
+export const useReducedMotion = (preference: MotionPreference) => {
+  const [system, setSystem] = useState(systemPrefersReducedMotion);
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+    const onChange = () => setSystem(query.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+  return preference === 'system' ? system : preference === 'reduced';
+};
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AudioSettings } from './settings';
+
+// Synthesized sound effects behind a small voice manager. Everything routes
+// through sfx/music buses into a master gain, so volume changes apply to
+// sounds already playing. Noise buffers are generated once per length and
+// reused, and voices are capped (per sound and overall) so a big chain
+// reaction steals its own oldest voices instead of piling up hundreds of nodes.
+
+export type SoundName = 'launch' | 'explosion' | 'intercept' | 'impact' | 'incoming' | 'lowAmmo' | 'levelComplete' | 'gameOver';
+
+type Bus = 'sfx' | 'music';
+
+interface Voice {
+  name: SoundName;
+  endsAt: number;
+  sources: AudioScheduledSourceNode[];
+}
+
+interface SoundContext {
+  ctx: AudioContext;
+  out: AudioNode;
+  at: number;
+  noise: (seconds: number) => AudioBuffer;
+}
+
+interface SoundSpec {
+  bus: Bus;
+  limit: number; // voices of this sound allowed at once
+  play: (s: SoundContext) => { duration: number; sources: AudioScheduledSourceNode[] };
+}
+
+const MAX_VOICES = 16;
+
+// Gain node that ramps from `peak` down to silence over `duration`
+const envelope = ({ ctx, out, at }: SoundContext, peak: number, duration: number) => {
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(peak, at);
+  gain.gain.exponentialRampToValueAtTime(0.001, at + duration);
+  gain.connect(out);
+  return gain;
+};
+
+const tone = (s: SoundContext, type: OscillatorType, from: number, to: number, start: number, duration: number, peak: number) => {
+  const osc = s.ctx.createOscillator();
+  osc.type = type;
+  osc.frequency.setValueAtTime(from, s.at + start);
+  if (to !== from) osc.frequency.exponentialRampToValueAtTime(to, s.at + start + duration);
+  osc.connect(envelope({ ...s, at: s.at + start }, peak, duration));
+  osc.start(s.at + start);
+  osc.stop(s.at + start + duration);
+  return osc;
+};
+
+const filteredNoise = (s: SoundContext, type: BiquadFilterType, from: number, to: number, duration: number, peak: number) => {
+  const source = s.ctx.createBufferSource();
+  source.buffer = s.noise(duration);
+  const filter = s.ctx.createBiquadFilter();
+  filter.type = type;
+  filter.frequency.setValueAtTime(from, s.at);
+  filter.frequency.exponentialRampToValueAtTime(to, s.at + duration);
+  source.connect(filter);
+  filter.connect(envelope(s, peak, duration));
+  source.start(s.at);
+  source.stop(s.at + duration);
+  return source;
+};
+
+// Notes of a short jingle, one after another
+const melody = (s: SoundContext, notes: number[], noteSec: number, peak: number) => ({
+  duration: notes.length * noteSec + noteSec,
+  sources: notes.map((freq, i) => tone(s, 'triangle', freq, freq, i * noteSec, noteSec * (i === notes.length - 1 ? 2 : 1.2), peak)),
+});
+
+const SOUNDS: Record<SoundName, SoundSpec> = {
+  launch: {
+    bus: 'sfx',
+    limit: 4,
+    play: s => ({ duration: 0.15, sources: [tone(s, 'sawtooth', 220, 880, 0, 0.15, 0.06)] }),
+  },
+  explosion: {
+    bus: 'sfx',
+    limit: 6,
+    play: s => ({ duration: 0.5, sources: [filteredNoise(s, 'lowpass', 1000, 40, 0.5, 0.3)] }),
+  },
+  intercept: {
+    bus: 'sfx',
+    limit: 4,
+    play: s => ({ duration: 0.12, sources: [tone(s, 'sine', 1400, 700, 0, 0.12, 0.1)] }),
+  },
+  impact: {
+    bus: 'sfx',
+    limit: 3,
+    play: s => ({
+      duration: 1.2,
+      sources: [filteredNoise(s, 'lowpass', 500, 30, 1.2, 0.5), tone(s, 'sine', 80, 30, 0, 0.8, 0.4)],
+    }),
+  },
+  incoming: {
+    bus: 'sfx',
+    limit: 1,
+    play: s => ({
+      duration: 0.8,
+      sources: [0, 0.2, 0.4, 0.6].map((start, i) => tone(s, 'square', i % 2 ? 660 : 880, i % 2 ? 660 : 880, start, 0.2, 0.04)),
+    }),
+  },
+  lowAmmo: {
+    bus: 'sfx',
+    limit: 1,
+    play: s => ({
+      duration: 0.6,
+      sources: [0, 0.2, 0.4].map(start => tone(s, 'square', 440, 440, start, 0.1, 0.06)),
+    }),
+  },
+  levelComplete: {
+    bus: 'music',
+    limit: 1,
+    play: s => melody(s, [523.25, 659.25, 783.99, 1046.5], 0.14, 0.15),
+  },
+  gameOver: {
+    bus: 'music',
+    limit: 1,
+    play: s => melody(s, [392, 311.13, 261.63, 196], 0.25, 0.15),
+  },
+};
+
+export const createSoundManager = () => {
+  let ctx: AudioContext | null = null;
+  let buses: Record<Bus | 'master', GainNode> | null = null;
+  let settings: AudioSettings | null = null;
+  let voices: Voice[] = [];
+  const noiseBuffers = new Map<number, AudioBuffer>();
+
+  const noise = (seconds: number) => {
+    const length = Math.ceil(ctx!.sampleRate * seconds);
+    let buffer = noiseBuffers.get(length);
+    if (!buffer) {
+      buffer = ctx!.createBuffer(1, length, ctx!.sampleRate);
+      const data = buffer.getChannelData(0);
+      for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+      noiseBuffers.set(length, buffer);
+    }
+    return buffer;
+  };
+
+  const applySettings = () => {
+    if (!ctx || !buses || !settings) return;
+    const now = ctx.currentTime;
+    // A short time constant avoids clicks when a slider is dragged
+    buses.master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, now, 0.02);
+    buses.sfx.gain.setTargetAtTime(settings.sfx, now, 0.02);
+    buses.music.gain.setTargetAtTime(settings.music, now, 0.02);
+  };
+
+  const steal = (candidates: Voice[]) => {
+    const oldest = candidates[0];
+    oldest.sources.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    voices = voices.filter(v => v !== oldest);
+  };
+
+  return {
+    // Browsers keep audio locked until a user gesture, so call this from one
+    unlock() {
+      if (!ctx) {
+        ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+        const master = ctx.createGain();
+        master.connect(ctx.destination);
+        const sfx = ctx.createGain();
+        const music = ctx.createGain();
+        sfx.connect(master);
+        music.connect(master);
+        buses = { master, sfx, music };
+        applySettings();
+      }
+      if (ctx.state === 'suspended') ctx.resume();
+    },
+    setSettings(next: AudioSettings) {
+      settings = next;
+      applySettings();
+    },
+    play(name: SoundName) {
+      if (!ctx || !buses || settings?.muted || ctx.state !== 'running') return;
+      const now = ctx.currentTime;
+      voices = voices.filter(v => v.endsAt > now);
+      const spec = SOUNDS[name];
+      const same = voices.filter(v => v.name === name);
+      if (same.length >= spec.limit) steal(same);
+      else if (voices.length >= MAX_VOICES) steal(voices);
+      const { duration, sources } = spec.play({ ctx, out: buses[spec.bus], at: now, noise });
+      voices.push({ name, endsAt: now + duration, sources });
+    },
+    suspend() {
+      if (ctx?.state === 'running') ctx.suspend();
+    },
+    resume() {
+      if (ctx?.state === 'suspended') ctx.resume();
+    },
+  };
+};
+
+export type SoundManager = ReturnType<typeof createSoundManager>;
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Contrast } from 'lucide-react';
+import { MOTION_PREFERENCES, MotionPreference, PaletteId, PALETTES } from '../accessibility';
+import { AccessibilitySettings } from '../settings';
+import Choice from './Choice';
+
+interface AccessibilityControlsProps {
+  settings: AccessibilitySettings;
+  onChange: (settings: AccessibilitySettings) => void;
+  labels: {
+    palette: string;
+    palettes: Record<PaletteId, string>;
+    motion: string;
+    motions: Record<MotionPreference, string>;
+    highContrast: string;
+  };
+}
+
+export default function AccessibilityControls({ settings, onChange, labels }: AccessibilityControlsProps) {
+  const palettes = (Object.keys(PALETTES) as PaletteId[]).map((id): [PaletteId, string] => [id, labels.palettes[id]]);
+  const motions = MOTION_PREFERENCES.map((id): [MotionPreference, string] => [id, labels.motions[id]]);
+
+  return (
+    <div className="bg-white/5 rounded-3xl p-5 border border-white/5 space-y-4 text-left">
+      <Choice label={labels.palette} options={palettes} value={settings.palette} onSelect={palette => onChange({ ...settings, palette })} />
+      <Choice label={labels.motion} options={motions} value={settings.motion} onSelect={motion => onChange({ ...settings, motion })} />
+      <button
+        role="switch"
+        aria-checked={settings.highContrast}
+        onClick={() => onChange({ ...settings, highContrast: !settings.highContrast })}
+        className="w-full flex items-center justify-between text-zinc-300 hover:text-white text-xs font-display uppercase tracking-[0.2em] transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Contrast className="w-4 h-4" />
+          {labels.highContrast}
+        </span>
+        <span className={`w-9 h-5 rounded-full p-0.5 transition-colors ${settings.highContrast ? 'bg-emerald-500' : 'bg-zinc-700'}`}>
+          <span className={`block w-4 h-4 rounded-full bg-white transition-transform ${settings.highContrast ? 'translate-x-4' : ''}`} />
+        </span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Building2, Play, Wrench, Zap } from 'lucide-react';
+import { GAME_CONFIG, UpgradeId } from '../types';
+import { ArmoryItem, getItemCost, Loadout, UPGRADES } from '../game/upgrades';
+
+interface ArmoryProps {
+  score: number;
+  loadout: Loadout;
+  onBuy: (item: ArmoryItem, cost: number) => void;
+  onDeploy: () => void;
+  formatNumber: (n: number) => string;
+  labels: {
+    armory: string;
+    armoryMsg: string;
+    repairs: string;
+    rebuild: string;
+    upgrades: string;
+    deploy: string;
+    maxed: string;
+    city: string;
+    batteryNames: string[];
+    upgradeNames: Record<UpgradeId, string>;
+  };
+}
+
+export default function Armory({ score, loadout, onBuy, onDeploy, formatNumber, labels }: ArmoryProps) {
+  const buyButton = (item: ArmoryItem, label: React.ReactNode, key: string) => {
+    const cost = getItemCost(loadout, item);
+    const affordable = cost !== null && cost <= score;
+    return (
+      <button
+        key={key}
+        disabled={!affordable}
+        onClick={() => cost !== null && onBuy(item, cost)}
+        className={`w-full flex items-center justify-between gap-3 px-4 py-3 rounded-2xl border text-sm font-display transition-all ${
+          affordable
+            ? 'border-emerald-500/30 bg-white/5 text-white hover:bg-emerald-500/20 active:scale-[0.98]'
+            : 'border-white/5 bg-zinc-900/60 text-zinc-600 cursor-not-allowed'
+        }`}
+      >
+        <span className="flex items-center gap-2 text-left">{label}</span>
+        <span className="font-mono tabular-nums">{cost === null ? labels.maxed : formatNumber(cost)}</span>
+      </button>
+    );
+  };
+
+  const world = loadout.world;
+  const damagedBatteries = world ? world.batteryHealth.map((h, i) => [h, i]).filter(([h]) => h < GAME_CONFIG.BATTERY_MAX_HEALTH) : [];
+  const lostCities = world ? world.citiesAlive.map((alive, i) => [alive, i] as const).filter(([alive]) => !alive) : [];
+
+  return (
+    <div className="max-w-lg w-full glass-panel p-8 rounded-[2.5rem] space-y-6 shadow-2xl border-white/10">
+      <div className="text-center space-y-2">
+        <h2 className="text-4xl font-display font-bold text-white tracking-tight">{labels.armory}</h2>
+        <p className="text-zinc-400 text-sm font-display">{labels.armoryMsg}</p>
+        <div className="text-3xl font-display font-medium text-emerald-400 tabular-nums">{formatNumber(score)}</div>
+      </div>
+
+      <div className="space-y-4 max-h-[50vh] overflow-y-auto pr-1">
+        {(damagedBatteries.length > 0 || lostCities.length > 0) && (
+          <div className="space-y-2">
+            <div className="text-[10px] uppercase tracking-[0.2em] text-zinc-500 font-bold font-display">{labels.repairs}</div>
+            {damagedBatteries.map(([health, i]) =>
+              buyButton(
+                { type: 'repair', battery: i },
+                <>
+                  <Wrench className="w-4 h-4 text-amber-400" />
+                  {labels.batteryNames[i]} ({health}/{GAME_CONFIG.BATTERY_MAX_HEALTH})
+                </>,
+                `repair-${i}`,
+              ),
+            )}
+            {lostCities.map(([, i]) =>
+              buyButton(
+                { type: 'rebuild', city: i },
+                <>
+                  <Building2 className="w-4 h-4 text-sky-400" />
+                  {labels.rebuild} · {labels.city} {i + 1}
+                </>,
+                `rebuild-${i}`,
+              ),
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="text-[10px] uppercase tracking-[0.2em] text-zinc-500 font-bold font-display">{labels.upgrades}</div>
+          {(Object.keys(UPGRADES) as UpgradeId[]).map(id => {
+            const owned = loadout.upgrades[id] ?? 0;
+            return buyButton(
+              { type: 'upgrade', id },
+              <>
+                <Zap className="w-4 h-4 text-emerald-400" />
+                {labels.upgradeNames[id]}
+                <span className="flex gap-1 ml-1">
+                  {Array.from({ length: UPGRADES[id].maxLevel }).map((_, n) => (
+                    <span key={n} className={`w-1.5 h-1.5 rounded-full ${n < owned ? 'bg-emerald-400' : 'bg-zinc-700'}`} />
+                  ))}
+                </span>
+              </>,
+              `upgrade-${id}`,
+            );
+          })}
+        </div>
+      </div>
+
+      <button
+        onClick={onDeploy}
+        className="w-full flex items-center justify-center gap-3 bg-emerald-500 text-black py-5 rounded-2xl font-bold text-lg hover:bg-emerald-400 transition-all font-display shadow-lg shadow-emerald-500/20"
+      >
+        <Play className="w-6 h-6 fill-current" />
+        {labels.deploy}
+      </button>
+    </div>
+  );
+}
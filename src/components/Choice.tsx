@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+
+interface ChoiceProps<T extends string> {
+  label: string;
+  options: [T, string][];
+  value: T;
+  onSelect: (value: T) => void;
+}
+
+// One row of mutually exclusive choices, exposed as a radio group
+export default function Choice<T extends string>({ label, options, value, onSelect }: ChoiceProps<T>) {
+  return (
+    <div className="space-y-2">
+      <div className="text-[10px] uppercase tracking-[0.2em] text-zinc-500 font-bold font-display">{label}</div>
+      <div role="radiogroup" aria-label={label} className="flex flex-wrap gap-2">
+        {options.map(([id, name]) => (
+          <button
+            key={id}
+            role="radio"
+            aria-checked={value === id}
+            onClick={() => onSelect(id)}
+            className={`px-3 py-1.5 rounded-full text-xs font-display border transition-all ${value === id ? 'bg-emerald-500 text-black border-emerald-400 font-bold' : 'text-zinc-300 border-white/10 hover:bg-white/10'}`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
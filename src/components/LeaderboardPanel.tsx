@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { WifiOff, X } from 'lucide-react';
+import { GAME_CONFIG, LeaderboardEntry } from '../types';
+import { fetchLevelBoard, fetchPlayerHistory, fetchTopRuns, loadPlayerName } from '../leaderboard';
+
+type Tab = 'global' | 'level' | 'mine';
+
+interface LeaderboardPanelProps {
+  onClose: () => void;
+  formatNumber: (n: number) => string;
+  labels: {
+    leaderboard: string;
+    global: string;
+    level: string;
+    mine: string;
+    offline: string;
+    empty: string;
+  };
+}
+
+export default function LeaderboardPanel({ onClose, formatNumber, labels }: LeaderboardPanelProps) {
+  const [tab, setTab] = useState<Tab>('global');
+  const [level, setLevel] = useState(1);
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [offline, setOffline] = useState(false);
+  const playerName = loadPlayerName();
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setOffline(false);
+    const load =
+      tab === 'global' ? fetchTopRuns() :
+      tab === 'level' ? fetchLevelBoard(level) :
+      fetchPlayerHistory(playerName);
+    load
+      .then(result => !cancelled && setEntries(result))
+      .catch(() => !cancelled && setOffline(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [tab, level, playerName]);
+
+  const tabs: [Tab, string][] = [['global', labels.global], ['level', labels.level]];
+  if (playerName) tabs.push(['mine', labels.mine]);
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center p-6 bg-black/70 backdrop-blur-md">
+      <div className="max-w-lg w-full glass-panel rounded-3xl p-6 border-white/10 text-left space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-display font-bold text-white">{labels.leaderboard}</h3>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-all">
+            <X className="w-5 h-5 text-zinc-400" />
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          {tabs.map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-1.5 rounded-full text-xs font-bold uppercase tracking-[0.15em] font-display transition-all ${
+                tab === id ? 'bg-emerald-500 text-black' : 'bg-white/5 text-zinc-400 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+          {tab === 'level' && (
+            <select
+              value={level}
+              onChange={e => setLevel(Number(e.target.value))}
+              className="ml-auto bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white font-mono text-xs"
+            >
+              {Array.from({ length: GAME_CONFIG.TOTAL_LEVELS }).map((_, i) => (
+                <option key={i + 1} value={i + 1}>{i + 1}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="min-h-[12rem] max-h-72 overflow-y-auto">
+          {offline ? (
+            <div className="flex items-center justify-center gap-2 h-48 text-amber-400 text-sm font-mono">
+              <WifiOff className="w-4 h-4" />
+              {labels.offline}
+            </div>
+          ) : entries === null ? (
+            <div className="h-48 flex items-center justify-center text-zinc-600 font-mono text-sm animate-pulse">···</div>
+          ) : entries.length === 0 ? (
+            <div className="h-48 flex items-center justify-center text-zinc-500 font-mono text-sm">{labels.empty}</div>
+          ) : (
+            <ol className="space-y-1 font-mono text-sm">
+              {entries.map((entry, i) => (
+                <li key={entry.id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-white/5">
+                  <span className="w-6 text-zinc-500 tabular-nums">{tab === 'mine' ? '·' : i + 1}</span>
+                  <span className="flex-1 truncate text-white">{entry.name}</span>
+                  <span className="text-zinc-500 text-xs">L{entry.levelReached}</span>
+                  <span className="w-24 text-right text-emerald-400 tabular-nums">{formatNumber(entry.score)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Lock, Star } from 'lucide-react';
+import { GAME_CONFIG } from '../types';
+import { CampaignProgress } from '../progress';
+
+interface LevelSelectProps {
+  progress: CampaignProgress;
+  title: string;
+  bestLabel: string;
+  formatNumber: (n: number) => string;
+  onSelect: (level: number) => void;
+}
+
+export default function LevelSelect({ progress, title, bestLabel, formatNumber, onSelect }: LevelSelectProps) {
+  return (
+    <div className="glass-panel rounded-3xl p-5 border-white/10 text-left">
+      <div className="text-[10px] uppercase tracking-[0.2em] text-emerald-500/70 font-bold mb-3 font-display">{title}</div>
+      <div className="grid grid-cols-5 sm:grid-cols-10 gap-2 max-h-48 overflow-y-auto pr-1">
+        {Array.from({ length: GAME_CONFIG.TOTAL_LEVELS }).map((_, i) => {
+          const level = i + 1;
+          const record = progress.levels[level];
+          const locked = level > progress.unlockedLevel;
+          return (
+            <button
+              key={level}
+              disabled={locked}
+              onClick={() => onSelect(level)}
+              title={record ? `${bestLabel} ${formatNumber(record.bestScore)}` : undefined}
+              className={`flex flex-col items-center justify-center gap-1 rounded-xl py-2 border font-display transition-all ${
+                locked
+                  ? 'border-white/5 bg-zinc-900/60 text-zinc-700 cursor-not-allowed'
+                  : 'border-emerald-500/20 bg-white/5 text-white hover:bg-emerald-500/20 active:scale-95'
+              }`}
+            >
+              {locked ? <Lock className="w-3.5 h-3.5" /> : <span className="text-sm font-bold tabular-nums">{level}</span>}
+              <div className="flex gap-px">
+                {[0, 1, 2].map(s => (
+                  <Star
+                    key={s}
+                    className={`w-2 h-2 ${record && s < record.stars ? 'text-amber-400 fill-current' : 'text-zinc-700'}`}
+                  />
+                ))}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
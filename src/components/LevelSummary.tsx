@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { DirectorState, GAME_CONFIG, LevelStats, LevelTally } from '../types';
+
+interface LevelSummaryProps {
+  stats: LevelStats;
+  tally?: LevelTally; // only when the level was cleared
+  director?: DirectorState | null; // where the adaptive director left the level, when it ran
+  formatNumber: (n: number) => string;
+  labels: {
+    cityBonus: string;
+    ammoBonus: string;
+    bonusTotal: string;
+    shotsFired: string;
+    hits: string;
+    accuracy: string;
+    kills: string;
+    rocketsThrough: string;
+    bestChain: string;
+    director: string;
+    directorRate: string;
+    directorSpeed: string;
+    directorAdjustments: string;
+  };
+}
+
+const COUNT_UP_MS = 900;
+
+// Counts from 0 to `value`, starting after `delayMs`
+const useCountUp = (value: number, delayMs: number) => {
+  const [shown, setShown] = useState(0);
+  useEffect(() => {
+    let frame: number;
+    let start: number | null = null;
+    const animate = (time: number) => {
+      if (start === null) start = time + delayMs;
+      const t = Math.min(1, Math.max(0, (time - start) / COUNT_UP_MS));
+      setShown(Math.round(value * t));
+      if (t < 1) frame = requestAnimationFrame(animate);
+    };
+    frame = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(frame);
+  }, [value, delayMs]);
+  return shown;
+};
+
+interface TallyRowProps {
+  label: string;
+  count: number;
+  each: number;
+  total: number;
+  delayMs: number;
+  formatNumber: (n: number) => string;
+}
+
+const TallyRow = ({ label, count, each, total, delayMs, formatNumber }: TallyRowProps) => {
+  const shown = useCountUp(total, delayMs);
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: -12 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: delayMs / 1000 }}
+      className="flex items-center justify-between text-sm font-display"
+    >
+      <span className="text-zinc-400">
+        {label} <span className="text-zinc-600">{count} × {each}</span>
+      </span>
+      <span className="text-white font-mono tabular-nums">+{formatNumber(shown)}</span>
+    </motion.div>
+  );
+};
+
+export default function LevelSummary({ stats, tally, director, formatNumber, labels }: LevelSummaryProps) {
+  const accuracy = stats.shotsFired > 0 ? Math.round((stats.hits / stats.shotsFired) * 100) : 0;
+  const totalShown = useCountUp(tally?.total ?? 0, COUNT_UP_MS * 2);
+  const rows: [string, string | number][] = [
+    [labels.shotsFired, stats.shotsFired],
+    [labels.hits, stats.hits],
+    [labels.accuracy, `${accuracy}%`],
+    [labels.kills, stats.kills],
+    [labels.rocketsThrough, stats.rocketsThrough],
+    [labels.bestChain, `×${stats.bestChain}`],
+  ];
+  const directorRows: [string, string][] = director
+    ? [
+        [labels.directorRate, `×${director.rate.toFixed(2)}`],
+        [labels.directorSpeed, `×${director.speed.toFixed(2)}`],
+        [labels.directorAdjustments, `+${director.raised} / −${director.lowered}`],
+      ]
+    : [];
+
+  return (
+    <div className="space-y-4 text-left">
+      {tally && (
+        <div className="space-y-2">
+          <TallyRow label={labels.cityBonus} count={tally.cities} each={GAME_CONFIG.CITY_BONUS} total={tally.cityBonus} delayMs={0} formatNumber={formatNumber} />
+          <TallyRow label={labels.ammoBonus} count={tally.ammo} each={GAME_CONFIG.AMMO_BONUS} total={tally.ammoBonus} delayMs={COUNT_UP_MS} formatNumber={formatNumber} />
+          <div className="flex items-center justify-between text-sm font-display font-bold border-t border-white/10 pt-2">
+            <span className="text-emerald-400">{labels.bonusTotal}</span>
+            <span className="text-emerald-400 font-mono tabular-nums">+{formatNumber(totalShown)}</span>
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-3 gap-2">
+        {rows.map(([label, value]) => (
+          <div key={label} className="bg-white/5 rounded-2xl px-3 py-2 text-center">
+            <div className="text-[9px] uppercase tracking-[0.15em] text-zinc-500 font-bold font-display">{label}</div>
+            <div className="text-lg font-display font-bold text-white tabular-nums">{value}</div>
+          </div>
+        ))}
+      </div>
+      {director && (
+        <div className="space-y-2">
+          <div className="text-[10px] uppercase tracking-[0.2em] text-zinc-500 font-bold font-display">{labels.director}</div>
+          <div className="grid grid-cols-3 gap-2">
+            {directorRows.map(([label, value]) => (
+              <div key={label} className="bg-sky-500/10 border border-sky-500/20 rounded-2xl px-3 py-2 text-center">
+                <div className="text-[9px] uppercase tracking-[0.15em] text-zinc-500 font-bold font-display">{label}</div>
+                <div className="text-lg font-display font-bold text-sky-300 tabular-nums">{value}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
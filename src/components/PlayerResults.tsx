@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Crown } from 'lucide-react';
+
+export interface PlayerCard {
+  name: string;
+  role: string;
+  score: number;
+  stats: [string, number][];
+}
+
+interface PlayerResultsProps {
+  players: PlayerCard[];
+  winner?: number; // versus: index of the player who took the match
+  formatNumber: (n: number) => string;
+  labels: {
+    score: string;
+    winner: string;
+  };
+}
+
+// Side-by-side results for the two-player modes
+export default function PlayerResults({ players, winner, formatNumber, labels }: PlayerResultsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3 text-left">
+      {players.map((p, i) => (
+        <div
+          key={p.name}
+          className={`rounded-3xl p-4 border space-y-3 ${winner === i ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-white/5 border-white/5'}`}
+        >
+          <div>
+            <div className="flex items-center gap-2 text-white font-display font-bold">
+              {p.name}
+              {winner === i && <Crown className="w-4 h-4 text-amber-400" aria-label={labels.winner} />}
+            </div>
+            <div className="text-[10px] uppercase tracking-[0.2em] text-zinc-500 font-bold font-display">{p.role}</div>
+          </div>
+          <div>
+            <div className="text-[9px] uppercase tracking-[0.15em] text-zinc-500 font-bold font-display">{labels.score}</div>
+            <div className="text-2xl font-display font-bold text-white tabular-nums">{formatNumber(p.score)}</div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {p.stats.map(([label, value]) => (
+              <div key={label} className="bg-white/5 rounded-2xl px-2 py-1.5 text-center">
+                <div className="text-[9px] uppercase tracking-[0.15em] text-zinc-500 font-bold font-display">{label}</div>
+                <div className="text-base font-display font-bold text-white tabular-nums">{value}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Send, WifiOff } from 'lucide-react';
+import { RunSubmission } from '../types';
+import { loadPlayerName, savePlayerName, submitRun } from '../leaderboard';
+
+interface SubmitScoreProps {
+  run: Omit<RunSubmission, 'name'>;
+  labels: {
+    callsign: string;
+    submit: string;
+    rank: string;
+    offline: string;
+  };
+}
+
+export default function SubmitScore({ run, labels }: SubmitScoreProps) {
+  const [name, setName] = useState(loadPlayerName);
+  const [state, setState] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+  const [rank, setRank] = useState<number | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || state === 'sending') return;
+    savePlayerName(trimmed);
+    setState('sending');
+    try {
+      const result = await submitRun({ ...run, name: trimmed });
+      setRank(result.rank);
+      setState('sent');
+    } catch {
+      setState('error');
+    }
+  };
+
+  if (state === 'sent') {
+    return (
+      <div className="mt-4 text-emerald-400 font-display font-bold tracking-wide">
+        {labels.rank} #{rank}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="mt-4 flex flex-col gap-2">
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          maxLength={24}
+          placeholder={labels.callsign}
+          className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-white font-mono text-sm outline-none focus:border-emerald-500/50"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim() || state === 'sending'}
+          className="inline-flex items-center gap-2 bg-emerald-500 text-black px-4 rounded-xl font-bold text-sm font-display disabled:opacity-40"
+        >
+          <Send className="w-4 h-4" />
+          {labels.submit}
+        </button>
+      </div>
+      {state === 'error' && (
+        <div className="flex items-center justify-center gap-2 text-xs text-amber-400 font-mono">
+          <WifiOff className="w-3.5 h-3.5" />
+          {labels.offline}
+        </div>
+      )}
+    </form>
+  );
+}
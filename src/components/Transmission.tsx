@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Radio, X } from 'lucide-react';
+
+interface TransmissionProps {
+  title: string;
+  text: string | null; // null while the narrator is still answering
+  onDismiss?: () => void;
+  labels: {
+    waiting: string;
+    dismiss: string;
+  };
+}
+
+// A radio message from command: the briefing over the HUD, or the
+// after-action report on the end screen
+export default function Transmission({ title, text, onDismiss, labels }: TransmissionProps) {
+  return (
+    <div className="glass-panel p-4 rounded-2xl border-emerald-500/20 text-left space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-[10px] uppercase tracking-[0.2em] text-emerald-500/70 font-bold font-display">
+          <Radio className="w-3.5 h-3.5" />
+          {title}
+        </div>
+        {onDismiss && (
+          <button onClick={onDismiss} title={labels.dismiss} aria-label={labels.dismiss} className="pointer-events-auto text-zinc-500 hover:text-white transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      <p aria-busy={text === null} className={`text-sm font-display leading-relaxed ${text === null ? 'text-zinc-500 italic' : 'text-zinc-200'}`}>
+        {text ?? labels.waiting}
+      </p>
+    </div>
+  );
+}
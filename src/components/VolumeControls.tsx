@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { AudioSettings } from '../settings';
+
+interface VolumeControlsProps {
+  audio: AudioSettings;
+  onChange: (audio: AudioSettings) => void;
+  labels: {
+    master: string;
+    sfx: string;
+    music: string;
+    mute: string;
+    unmute: string;
+  };
+}
+
+export default function VolumeControls({ audio, onChange, labels }: VolumeControlsProps) {
+  const sliders: [keyof Omit<AudioSettings, 'muted'>, string][] = [
+    ['master', labels.master],
+    ['sfx', labels.sfx],
+    ['music', labels.music],
+  ];
+
+  return (
+    <div className="bg-white/5 rounded-3xl p-5 border border-white/5 space-y-3 text-left">
+      {sliders.map(([key, label]) => (
+        <label key={key} className="flex items-center gap-4">
+          <span className="w-16 text-[10px] uppercase tracking-[0.2em] text-zinc-500 font-bold font-display">{label}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(audio[key] * 100)}
+            disabled={audio.muted}
+            onChange={e => onChange({ ...audio, [key]: Number(e.target.value) / 100 })}
+            className="flex-1 accent-emerald-500 disabled:opacity-40"
+          />
+          <span className="w-8 text-right text-xs font-mono text-zinc-400 tabular-nums">{Math.round(audio[key] * 100)}</span>
+        </label>
+      ))}
+      <button
+        onClick={() => onChange({ ...audio, muted: !audio.muted })}
+        className="w-full flex items-center justify-center gap-2 text-zinc-300 hover:text-white text-xs font-display uppercase tracking-[0.2em] pt-1 transition-colors"
+      >
+        {audio.muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+        {audio.muted ? labels.unmute : labels.mute}
+      </button>
+    </div>
+  );
+}
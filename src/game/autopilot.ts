@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Battery, FireCommand, GameState, Rocket } from '../types';
+import { advanceRocket } from './rocketKinds';
+
+// A bot player for attract mode and headless balance runs. It sees the same
+// state the renderer draws and answers with ordinary fire commands, so it
+// spends ammo and obeys battery rules exactly like a person would.
+//
+// Each shot goes at the most urgent rocket nobody has fired at yet. The aim
+// point leads the target: the rocket's path is stepped forward with the
+// engine's own movement code until an interceptor from the chosen battery
+// could be there in time.
+
+export interface AutopilotOptions {
+  cooldownTicks?: number; // shortest gap between shots, roughly a quick player's click rate
+  lookaheadTicks?: number; // how far ahead a path is predicted
+}
+
+const MUZZLE_OFFSET = 30; // interceptors leave from this far above the battery (see engine `fire`)
+const CLAIM_SLACK_TICKS = 20; // keep a claim a little past the expected hit before trying again
+
+interface Claim {
+  shots: number;
+  until: number; // tick after which the shots count as missed
+}
+
+// Remaining ticks before a rocket lands or, for a MIRV, splits
+const ticksToImpact = (r: Rocket) => {
+  if (r.splitAtY !== undefined) {
+    const dy = r.targetY - r.originY || 1;
+    return Math.max(0, (r.splitAtY - r.y) / ((r.speed * dy) / Math.hypot(r.targetX - r.originX, dy)));
+  }
+  if (r.kind === 'evader') return ((1 - r.progress) * Math.hypot(r.targetX - r.originX, r.targetY - r.originY)) / r.speed;
+  return Math.hypot(r.targetX - r.x, r.targetY - r.y) / r.speed;
+};
+
+// Positions for the next `ticks` ticks, cut short where it lands or splits
+const predictPath = (r: Rocket, ticks: number) => {
+  const ghost = { ...r };
+  const path: { x: number; y: number }[] = [];
+  for (let t = 0; t < ticks; t++) {
+    if (ghost.splitAtY !== undefined && ghost.y >= ghost.splitAtY) break;
+    if (advanceRocket(ghost)) break;
+    path.push({ x: ghost.x, y: ghost.y });
+  }
+  return path;
+};
+
+const isLiveTarget = (state: GameState, r: Rocket) =>
+  state.cities.some(c => !c.isDestroyed && c.x === r.targetX && c.y === r.targetY) ||
+  state.batteries.some(b => !b.isDestroyed && b.x === r.targetX && b.y === r.targetY);
+
+// Already inside a blast that is still growing: it will be caught without help
+const isCovered = (state: GameState, r: Rocket) =>
+  state.explosions.some(e => e.phase === 'growing' && Math.hypot(r.x - e.x, r.y - e.y) < e.maxRadius);
+
+export const createAutopilot = ({ cooldownTicks = 10, lookaheadTicks = 600 }: AutopilotOptions = {}) => {
+  const claims = new Map<string, Claim>();
+  let lastShot = -Infinity;
+
+  // Earliest tick at which `battery` can meet the path, and where
+  const solve = (state: GameState, battery: Battery, path: { x: number; y: number }[]) => {
+    const fuse = state.config.ROCKET_BASE_RADIUS * 3;
+    const speed = state.config.INTERCEPTOR_SPEED;
+    for (let t = 0; t < path.length; t++) {
+      const p = path[t];
+      const travel = Math.hypot(p.x - battery.x, p.y - (battery.y - MUZZLE_OFFSET));
+      if (travel - fuse <= speed * (t + 1)) return { tick: t + 1, x: p.x, y: p.y };
+    }
+    return null;
+  };
+
+  const decide = (state: GameState): FireCommand[] => {
+    if (state.outcome !== 'playing' || state.tick - lastShot < cooldownTicks) return [];
+    const batteries = state.batteries.filter(b => !b.isDestroyed && b.ammo > 0);
+    if (!batteries.length) return [];
+
+    for (const [id, claim] of claims) {
+      if (claim.until < state.tick || !state.rockets.some(r => r.id === id)) claims.delete(id);
+    }
+
+    const candidates = state.rockets
+      .filter(r => {
+        if (r.isDestroyed || isCovered(state, r) || !isLiveTarget(state, r)) return false;
+        // Armor soaks one blast per layer, so armored rockets need extra shots
+        return (claims.get(r.id)?.shots ?? 0) <= r.armor;
+      })
+      .map(r => ({ r, urgency: ticksToImpact(r) }))
+      .sort((a, b) => a.urgency - b.urgency);
+
+    for (const { r } of candidates) {
+      const path = predictPath(r, lookaheadTicks);
+      let best: { battery: Battery; tick: number; x: number; y: number } | null = null;
+      for (const battery of batteries) {
+        const hit = solve(state, battery, path);
+        if (hit && (!best || hit.tick < best.tick)) best = { battery, ...hit };
+      }
+      if (!best) continue;
+      const claim = claims.get(r.id);
+      claims.set(r.id, { shots: (claim?.shots ?? 0) + 1, until: state.tick + best.tick + CLAIM_SLACK_TICKS });
+      lastShot = state.tick;
+      return [{ x: best.x, y: best.y, mode: 'manual', batteryId: best.battery.id }];
+    }
+    return [];
+  };
+
+  return {
+    decide,
+    // Forget claims and cooldown, e.g. when a new level starts
+    reset() {
+      claims.clear();
+      lastShot = -Infinity;
+    },
+  };
+};
+
+export type Autopilot = ReturnType<typeof createAutopilot>;
+
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DifficultyId, GameConfig, WaveEntry } from '../types';
+
+export interface DifficultyPreset {
+  rockets: number; // multiplier on every wave's rocket count
+  speed: number; // multiplier on rocket speed ranges
+  ammo: number; // multiplier on AMMO_MULTIPLIER
+  blastRadius: number; // multiplier on EXPLOSION_MAX_RADIUS
+}
+
+export const DIFFICULTIES: Record<DifficultyId, DifficultyPreset> = {
+  easy: { rockets: 0.7, speed: 0.8, ammo: 1.3, blastRadius: 1.25 },
+  normal: { rockets: 1, speed: 1, ammo: 1, blastRadius: 1 },
+  hard: { rockets: 1.25, speed: 1.15, ammo: 0.85, blastRadius: 0.9 },
+  nightmare: { rockets: 1.5, speed: 1.3, ammo: 0.7, blastRadius: 0.8 },
+};
+
+// Like an upgrade, a pure transform of the config; upgrades stack on top
+export const applyDifficulty = (config: GameConfig, id: DifficultyId = 'normal'): GameConfig => {
+  const preset = DIFFICULTIES[id];
+  return {
+    ...config,
+    ROCKET_SPEED_MIN: config.ROCKET_SPEED_MIN * preset.speed,
+    ROCKET_SPEED_MAX: config.ROCKET_SPEED_MAX * preset.speed,
+    AMMO_MULTIPLIER: config.AMMO_MULTIPLIER * preset.ammo,
+    EXPLOSION_MAX_RADIUS: config.EXPLOSION_MAX_RADIUS * preset.blastRadius,
+  };
+};
+
+// Scale a wave script's counts and scripted speeds. Each group keeps the
+// stretch of the level it covered, so more rockets means a faster stream.
+export const scaleWaves = (waves: WaveEntry[], id: DifficultyId = 'normal'): WaveEntry[] => {
+  if (id === 'normal') return waves;
+  const preset = DIFFICULTIES[id];
+  return waves.map(w => {
+    const count = Math.max(1, Math.round(w.count * preset.rockets));
+    return {
+      ...w,
+      count,
+      interval: w.interval && (w.interval * w.count) / count,
+      speed: w.speed && [w.speed[0] * preset.speed, w.speed[1] * preset.speed],
+    };
+  });
+};
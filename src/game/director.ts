@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DirectorState, GameState, GAME_CONFIG } from '../types';
+
+// Adaptive difficulty. Every few seconds the director looks at how the last
+// stretch went and nudges the spawn rate and rocket speed, within fixed
+// bounds: losses or leaks ease off, clean and efficient play pushes harder.
+// It only reads simulation state, so replays reproduce it exactly.
+
+const REVIEW_TICKS = 5 * GAME_CONFIG.TICKS_PER_SECOND;
+const STEP = 0.05;
+export const DIRECTOR_RATE_BOUNDS: [number, number] = [0.75, 1.3];
+export const DIRECTOR_SPEED_BOUNDS: [number, number] = [0.8, 1.25];
+const EFFICIENT_ACCURACY = 0.5; // hits per shot that counts as sharp shooting
+const MIN_SHOTS = 3; // fewer shots than this in a window says nothing about aim
+const LEAK_LIMIT = 3; // rockets through in one window that calls for easing off
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+
+const standing = (state: GameState) => state.cities.filter(c => !c.isDestroyed).length;
+
+export const createDirector = (state: GameState): DirectorState => ({
+  rate: 1,
+  speed: 1,
+  nextReview: REVIEW_TICKS,
+  seen: { shotsFired: 0, hits: 0, rocketsThrough: 0, citiesStanding: standing(state) },
+  raised: 0,
+  lowered: 0,
+});
+
+const adjust = (director: DirectorState, direction: 1 | -1) => {
+  const rate = clamp(director.rate + STEP * direction, DIRECTOR_RATE_BOUNDS);
+  const speed = clamp(director.speed + STEP * direction, DIRECTOR_SPEED_BOUNDS);
+  // Already at the bound: nothing changed, so nothing to report
+  if (rate === director.rate && speed === director.speed) return;
+  // Round away float drift so the end-of-level figures read cleanly
+  director.rate = Math.round(rate * 100) / 100;
+  director.speed = Math.round(speed * 100) / 100;
+  if (direction > 0) director.raised++;
+  else director.lowered++;
+};
+
+// Called once per simulation tick
+export const updateDirector = (state: GameState) => {
+  const director = state.director;
+  if (!director || state.tick < director.nextReview) return;
+  director.nextReview = state.tick + REVIEW_TICKS;
+
+  const { shotsFired, hits, rocketsThrough } = state.stats;
+  const citiesStanding = standing(state);
+  const shots = shotsFired - director.seen.shotsFired;
+  const leaked = rocketsThrough - director.seen.rocketsThrough;
+  // A rebuilt city raises the count; only count falls
+  const citiesLost = Math.max(0, director.seen.citiesStanding - citiesStanding);
+  const accuracy = shots ? (hits - director.seen.hits) / shots : 0;
+  director.seen = { shotsFired, hits, rocketsThrough, citiesStanding };
+
+  if (citiesLost > 0 || leaked >= LEAK_LIMIT) adjust(director, -1);
+  else if (leaked === 0 && shots >= MIN_SHOTS && accuracy >= EFFICIENT_ACCURACY) adjust(director, 1);
+};
@@ -0,0 +1,581 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Battery,
+  City,
+  DifficultyId,
+  Entity,
+  FireCommand,
+  GameEvent,
+  GameInputs,
+  GameConfig,
+  GameState,
+  GAME_CONFIG,
+  LaunchCommand,
+  LevelSetup,
+  LevelTally,
+  PlayerMode,
+  Rocket,
+  RocketKind,
+  ScheduledSpawn,
+  WaveEntry,
+  WaveTarget,
+  WorldState,
+} from '../types';
+import { createRng, deriveSeed, random } from './rng';
+import { advanceRocket, getSplitAltitude, MIRV_WARHEADS, pickRocketKind, ROCKET_KINDS } from './rocketKinds';
+import { applyUpgrades } from './upgrades';
+import { applyDifficulty, DIFFICULTIES, scaleWaves } from './difficulty';
+import { createDirector, updateDirector } from './director';
+import { createSpatialGrid, SpatialGrid } from './spatialGrid';
+import { generateSurvivalWaves, getLevelWaves, getRocketsForLevel, getSurvivalLevel } from './waves';
+
+// Headless simulation. Nothing in here may touch React, the DOM or a canvas:
+// the UI feeds inputs into `step` and reacts to the events it returns.
+
+export const FIXED_STEP_MS = 1000 / GAME_CONFIG.TICKS_PER_SECOND;
+
+const makeId = (state: GameState, prefix: string) => `${prefix}-${state.nextId++}`;
+
+// Rockets are re-bucketed once per tick after they move; interceptor and blast
+// checks then only look at nearby cells. Cells about the size of a full
+// collision blast keep even the biggest queries to a handful of cells. Each
+// state holds on to its own grid, weakly so it goes with the state, and every
+// tick reuses its buckets.
+export const GRID_CELL_SIZE = 128;
+type RocketGrid = SpatialGrid<Rocket>;
+const rocketGrids = new WeakMap<GameState, RocketGrid>();
+const getRocketGrid = (state: GameState): RocketGrid => {
+  let grid = rocketGrids.get(state);
+  if (!grid) {
+    grid = createSpatialGrid<Rocket>(GRID_CELL_SIZE);
+    rocketGrids.set(state, grid);
+  }
+  return grid;
+};
+const MAX_RADIUS_SCALE = Math.max(...Object.values(ROCKET_KINDS).map(k => k.radiusScale));
+
+// Co-op: the second player holds the right battery, the first the other two
+const SECOND_PLAYER_BATTERIES = ['b-right'];
+
+// Distribute ammo: 25% sides, 50% middle. In co-op both players get half:
+// the right battery carries the second player's whole share.
+const splitAmmo = (totalAmmo: number, players: PlayerMode) => {
+  const sideAmmo = Math.floor(totalAmmo * 0.25);
+  if (players === 'coop') return [sideAmmo, sideAmmo, totalAmmo - (sideAmmo * 2)];
+  return [sideAmmo, totalAmmo - (sideAmmo * 2), sideAmmo];
+};
+
+// Index of the player a battery answers to; everything is the first player's outside co-op
+export const getBatteryOwner = (state: GameState, battery: Battery) =>
+  state.players === 'coop' && SECOND_PLAYER_BATTERIES.includes(battery.id) ? 1 : 0;
+
+const createBatteries = (width: number, height: number, ammo: number[], maxHealth: number): Battery[] => {
+  const battery = (id: string, x: number, ammo: number): Battery => ({
+    id, x, y: height - 40, ammo, maxAmmo: ammo, health: maxHealth, maxHealth, isDestroyed: false,
+  });
+  return [
+    battery('b-left', 80, ammo[0]),
+    battery('b-mid', width / 2, ammo[1]),
+    battery('b-right', width - 80, ammo[2]),
+  ];
+};
+
+const createCities = (width: number, height: number): City[] => {
+  const spacing = (width - 300) / 7;
+  return Array.from({ length: GAME_CONFIG.CITY_COUNT }).map((_, i) => ({
+    id: `city-${i}`,
+    x: 150 + (i < 3 ? i : i + 1) * spacing,
+    y: height - 20,
+    isDestroyed: false,
+  }));
+};
+
+// Re-apply damage left over from the previous level
+const applyWorld = (batteries: Battery[], cities: City[], world: WorldState) => {
+  batteries.forEach((b, i) => {
+    b.health = Math.min(b.maxHealth, world.batteryHealth[i] ?? b.maxHealth);
+    b.isDestroyed = b.health <= 0;
+  });
+  cities.forEach((c, i) => {
+    c.isDestroyed = world.citiesAlive[i] === false;
+  });
+};
+
+// The world the next level starts from. Crews patch up part of each
+// battery's damage (wrecked batteries come back on minimal health), and lost
+// city slots are refilled from the reserve, leftmost first.
+export const carryOverWorld = (state: GameState): WorldState => {
+  let reserveCities = state.reserveCities;
+  const citiesAlive = state.cities.map(c => {
+    if (!c.isDestroyed) return true;
+    if (reserveCities === 0) return false;
+    reserveCities--;
+    return true;
+  });
+  return {
+    batteryHealth: state.batteries.map(b => Math.min(b.maxHealth, b.health + state.config.BATTERY_AUTO_REPAIR)),
+    citiesAlive,
+    reserveCities,
+    bonusProgress: state.bonusProgress,
+  };
+};
+
+const STAGE_TICKS = GAME_CONFIG.LEVEL_DURATION_SEC * GAME_CONFIG.TICKS_PER_SECOND;
+
+// Lay a script's spawns out on the spawn clock, starting at `startTick`, and
+// append them to the queue. Jitter is drawn from the level's RNG here, so the
+// schedule is part of the seed.
+const scheduleWaves = (state: GameState, waves: WaveEntry[], startTick: number) => {
+  const lastTick = startTick + STAGE_TICKS - 1;
+  const first = state.waves.length;
+  const spawns: ScheduledSpawn[] = [];
+  waves.forEach((w, n) => {
+    const interval = w.interval ?? 0;
+    for (let k = 0; k < w.count; k++) {
+      const seconds = w.at + (k + random(state) * (w.jitter ?? 0)) * interval;
+      const tick = startTick + Math.round(seconds * GAME_CONFIG.TICKS_PER_SECOND);
+      spawns.push({ tick: Math.min(lastTick, tick), wave: first + n });
+    }
+  });
+  state.waves.push(...waves);
+  // Stable sort keeps script order for spawns on the same tick
+  state.spawnQueue.push(...spawns.sort((a, b) => a.tick - b.tick));
+  state.rocketsToSpawn += spawns.length;
+};
+
+const survivalWaves = (seed: number, stage: number, difficulty: DifficultyId) =>
+  scaleWaves(generateSurvivalWaves(stage, createRng(deriveSeed(seed, 'waves', stage))), difficulty);
+
+// Versus: rockets the attacker may launch in a level. Aimed rockets hit far
+// more often than scripted ones, so the budget is a share of the usual count.
+export const getVersusBudget = (level: number, difficulty: DifficultyId = 'normal') =>
+  Math.max(1, Math.round(getRocketsForLevel(level) * GAME_CONFIG.VERSUS_BUDGET_SHARE * DIFFICULTIES[difficulty].rockets));
+
+export const createLevelState = ({
+  level, width, height, seed, upgrades, world, waves, mode = 'campaign', difficulty = 'normal', adaptive = false, players = 'solo',
+}: LevelSetup): GameState => {
+  const survival = mode !== 'campaign';
+  // Versus is campaign only: the attacker's budget replaces the wave script
+  const versus = players === 'versus' && !survival;
+  const stageLevel = survival ? getSurvivalLevel(1) : level;
+  const firstWaves = versus ? [] : survival ? survivalWaves(seed, 1, difficulty) : scaleWaves(waves ?? getLevelWaves(level), difficulty);
+  const config: GameConfig = applyUpgrades(upgrades, applyDifficulty(GAME_CONFIG, difficulty));
+  const totalRockets = versus ? getVersusBudget(level, difficulty) : firstWaves.reduce((sum, w) => sum + w.count, 0);
+  const totalAmmo = Math.floor(totalRockets * config.AMMO_MULTIPLIER);
+  const batteries = createBatteries(width, height, splitAmmo(totalAmmo, players), config.BATTERY_MAX_HEALTH);
+  const cities = createCities(width, height);
+  if (world) applyWorld(batteries, cities, world);
+  const state: GameState = {
+    width,
+    height,
+    mode,
+    stage: 1,
+    level: stageLevel,
+    seed,
+    difficulty,
+    players: versus || players === 'coop' ? players : 'solo',
+    config,
+    rngState: seed,
+    nextId: 0,
+    tick: 0,
+    accumulator: 0,
+    rockets: [],
+    interceptors: [],
+    explosions: [],
+    batteries,
+    cities,
+    waves: [],
+    spawnQueue: [],
+    nextSpawn: 0,
+    spawnClock: 0,
+    rocketsToSpawn: versus ? totalRockets : 0,
+    nextLaunch: 0,
+    chainKills: {},
+    reserveCities: world?.reserveCities ?? 0,
+    bonusProgress: world?.bonusProgress ?? 0,
+    stats: { shotsFired: 0, hits: 0, kills: 0, rocketsThrough: 0, bestChain: 0 },
+    director: null,
+    outcome: 'playing',
+  };
+  // Nothing for the director to pace when a person picks the launches
+  if (adaptive && !versus) state.director = createDirector(state);
+  scheduleWaves(state, firstWaves, 0);
+  return state;
+};
+
+export const getElapsedSeconds = (state: GameState) => state.tick / GAME_CONFIG.TICKS_PER_SECOND;
+
+// Counts down the spawn schedule, so a director slowing spawns slows the clock too
+export const getTimeLeft = (state: GameState) =>
+  Math.max(0, GAME_CONFIG.LEVEL_DURATION_SEC - state.spawnClock / GAME_CONFIG.TICKS_PER_SECOND);
+
+// Which battery a command would fire from, if any can
+export const resolveBattery = (state: GameState, cmd: FireCommand): Battery | undefined => {
+  const availableBatteries = state.batteries.filter(b =>
+    !b.isDestroyed && b.ammo > 0 && (cmd.player === undefined || getBatteryOwner(state, b) === cmd.player));
+  if (cmd.mode === 'manual' || cmd.batteryId) {
+    return availableBatteries.find(b => b.id === cmd.batteryId);
+  }
+
+  let best: Battery | undefined;
+  let minDist = Infinity;
+  availableBatteries.forEach(b => {
+    const dist = Math.sqrt(Math.pow(b.x - cmd.x, 2) + Math.pow(b.y - cmd.y, 2));
+    // mostAmmo still breaks ties by distance
+    const better = cmd.mode === 'mostAmmo'
+      ? !best || b.ammo > best.ammo || (b.ammo === best.ammo && dist < minDist)
+      : dist < minDist;
+    if (better) {
+      minDist = dist;
+      best = b;
+    }
+  });
+  return best;
+};
+
+const fire = (state: GameState, cmd: FireCommand, events: GameEvent[]) => {
+  const battery = resolveBattery(state, cmd);
+  if (!battery) return;
+
+  battery.ammo--;
+  state.stats.shotsFired++;
+
+  const dx = cmd.x - battery.x;
+  const dy = cmd.y - (battery.y - 30);
+  const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+
+  const owner = getBatteryOwner(state, battery);
+  state.interceptors.push({
+    id: makeId(state, 'i'),
+    owner,
+    x: battery.x,
+    y: battery.y - 30,
+    startX: battery.x,
+    startY: battery.y - 30,
+    targetX: cmd.x,
+    targetY: cmd.y,
+    vx: (dx / dist) * state.config.INTERCEPTOR_SPEED,
+    vy: (dy / dist) * state.config.INTERCEPTOR_SPEED,
+    speed: state.config.INTERCEPTOR_SPEED,
+    progress: 0,
+    isExploded: false,
+  });
+  events.push({ type: 'interceptorLaunched', batteryId: battery.id, x: cmd.x, y: cmd.y, player: owner });
+};
+
+const findTarget = (state: GameState, id: string): Entity | undefined =>
+  [...state.cities, ...state.batteries].find(t => t.id === id && !t.isDestroyed);
+
+// Versus: the attacker spends one rocket of the budget on a target of their choosing
+const launch = (state: GameState, cmd: LaunchCommand, events: GameEvent[]) => {
+  if (state.players !== 'versus' || state.rocketsToSpawn <= 0 || state.tick < state.nextLaunch) return;
+  const target = findTarget(state, cmd.targetId);
+  if (!target) return;
+
+  state.rocketsToSpawn--;
+  state.nextLaunch = state.tick + state.config.VERSUS_LAUNCH_COOLDOWN;
+  const kind = pickRocketKind(state.level, () => random(state));
+  const { ROCKET_SPEED_MIN: speedMin, ROCKET_SPEED_MAX: speedMax } = state.config;
+  const baseSpeed = speedMin + random(state) * (speedMax - speedMin);
+  addRocket(state, kind, Math.min(Math.max(cmd.x, 0), state.width), target, baseSpeed, events);
+};
+
+// Survival has no level breaks: each minute the next stretch of waves is
+// scheduled, batteries get a share of ammo for it and crews patch them up.
+const beginStage = (state: GameState, events: GameEvent[]) => {
+  state.stage++;
+  state.level = getSurvivalLevel(state.stage);
+  // Drop spent schedule entries so a long run doesn't grow without bound
+  state.spawnQueue = state.spawnQueue.slice(state.nextSpawn);
+  state.nextSpawn = 0;
+  const waves = survivalWaves(state.seed, state.stage, state.difficulty);
+  // Stages run on the spawn clock, so a director slowing spawns stretches the
+  // stage rather than stacking the next stage's waves onto a queue still draining
+  scheduleWaves(state, waves, (state.stage - 1) * STAGE_TICKS);
+  const ammo = splitAmmo(Math.floor(waves.reduce((sum, w) => sum + w.count, 0) * state.config.AMMO_MULTIPLIER), state.players);
+  state.batteries.forEach((b, i) => {
+    b.health = Math.min(b.maxHealth, b.health + state.config.BATTERY_AUTO_REPAIR);
+    b.isDestroyed = b.health <= 0;
+    b.ammo += ammo[i];
+    b.maxAmmo = Math.max(b.maxAmmo, b.ammo);
+  });
+  events.push({ type: 'resupply', stage: state.stage });
+};
+
+const spawnRockets = (state: GameState, events: GameEvent[]) => {
+  if (state.mode !== 'campaign' && state.spawnClock >= state.stage * STAGE_TICKS) beginStage(state, events);
+  while (state.nextSpawn < state.spawnQueue.length && state.spawnQueue[state.nextSpawn].tick <= state.spawnClock) {
+    const { wave } = state.spawnQueue[state.nextSpawn++];
+    state.rocketsToSpawn--;
+    spawnFromWave(state, state.waves[wave], events);
+  }
+  // Versus: whatever the attacker hasn't launched when the minute is up is lost
+  if (state.players === 'versus' && state.spawnClock >= STAGE_TICKS) state.rocketsToSpawn = 0;
+};
+
+const spawnFromWave = (state: GameState, wave: WaveEntry, events: GameEvent[]) => {
+  const target = pickTarget(state, wave.target);
+  if (!target) return;
+
+  const kind = wave.kind ?? pickRocketKind(state.level, () => random(state));
+  const [speedMin, speedMax] = wave.speed ?? [state.config.ROCKET_SPEED_MIN, state.config.ROCKET_SPEED_MAX];
+  const baseSpeed = (speedMin + random(state) * (speedMax - speedMin)) * (state.director?.speed ?? 1);
+  const [originMin, originMax] = wave.origin ?? [0, 1];
+  const x = (originMin + random(state) * (originMax - originMin)) * state.width;
+  addRocket(state, kind, x, target, baseSpeed, events);
+};
+
+// Put a new rocket on the top edge
+const addRocket = (state: GameState, kind: RocketKind, x: number, target: Entity, baseSpeed: number, events: GameEvent[]) => {
+  const rocket = createRocket(state, kind, x, 0, target, baseSpeed);
+  if (kind === 'mirv') rocket.splitAtY = getSplitAltitude(state.height, () => random(state));
+  state.rockets.push(rocket);
+  events.push({ type: 'rocketSpawned', rocketId: rocket.id, kind });
+};
+
+const pickFrom = (state: GameState, targets: Entity[]) =>
+  targets.length ? targets[Math.floor(random(state) * targets.length)] : undefined;
+
+// Falls back to a broader rule when nothing matching the script's rule stands
+const pickTarget = (state: GameState, rule: WaveTarget = 'random'): Entity | undefined => {
+  const cities = state.cities.filter(c => !c.isDestroyed);
+  const batteries = state.batteries.filter(b => !b.isDestroyed);
+  if (typeof rule === 'object') {
+    const city = state.cities[rule.city];
+    return city && !city.isDestroyed ? city : pickTarget(state, 'cities');
+  }
+  if (rule === 'cities' && cities.length) return pickFrom(state, cities);
+  if (rule === 'batteries' && batteries.length) return pickFrom(state, batteries);
+  return pickFrom(state, [...cities, ...batteries]);
+};
+
+const createRocket = (state: GameState, kind: RocketKind, x: number, y: number, target: Entity, baseSpeed: number): Rocket => ({
+  id: makeId(state, 'r'),
+  kind,
+  x,
+  y,
+  originX: x,
+  originY: y,
+  targetX: target.x,
+  targetY: target.y,
+  speed: baseSpeed * ROCKET_KINDS[kind].speedMultiplier,
+  progress: 0,
+  isDestroyed: false,
+  armor: ROCKET_KINDS[kind].armor,
+});
+
+const splitMirv = (state: GameState, r: Rocket, events: GameEvent[]) => {
+  r.isDestroyed = true;
+  events.push({ type: 'rocketSplit', rocketId: r.id, x: r.x, y: r.y });
+  const warheads: Rocket[] = [];
+  for (let n = 0; n < MIRV_WARHEADS; n++) {
+    const target = pickTarget(state);
+    if (!target) break;
+    warheads.push(createRocket(state, 'warhead', r.x, r.y, target, r.speed / ROCKET_KINDS.mirv.speedMultiplier));
+  }
+  return warheads;
+};
+
+// Every BONUS_CITY_POINTS earned banks a reserve city, as in the arcade original.
+// Counted on points earned, so spending in the armory never costs a bonus.
+const earnPoints = (state: GameState, points: number, events: GameEvent[]) => {
+  state.bonusProgress += points;
+  while (state.bonusProgress >= state.config.BONUS_CITY_POINTS) {
+    state.bonusProgress -= state.config.BONUS_CITY_POINTS;
+    state.reserveCities++;
+    events.push({ type: 'bonusCity', reserveCities: state.reserveCities });
+  }
+};
+
+// Apply one blast to a rocket. Armor soaks up the first blast; the same blast
+// (interceptor detonation, then its growing cloud) never counts twice.
+// Each further kill by the same blast raises its chain multiplier.
+const damageRocket = (state: GameState, r: Rocket, blastId: string, events: GameEvent[], player?: number) => {
+  if (r.isDestroyed || r.lastHitBy === blastId) return;
+  r.lastHitBy = blastId;
+  if (r.armor > 0) {
+    r.armor--;
+    events.push({ type: 'rocketDamaged', rocketId: r.id });
+    return;
+  }
+  r.isDestroyed = true;
+  const chain = (state.chainKills[blastId] ?? 0) + 1;
+  state.chainKills[blastId] = chain;
+  state.stats.kills++;
+  state.stats.bestChain = Math.max(state.stats.bestChain, chain);
+  const multiplier = Math.min(chain, state.config.CHAIN_MAX_MULTIPLIER);
+  const points = ROCKET_KINDS[r.kind].points * multiplier;
+  events.push({ type: 'rocketDestroyed', rocketId: r.id, kind: r.kind, x: r.x, y: r.y, points, multiplier, player });
+  earnPoints(state, points, events);
+};
+
+const moveRockets = (state: GameState, events: GameEvent[]) => {
+  const spawned: Rocket[] = [];
+  state.rockets.forEach(r => {
+    if (r.splitAtY !== undefined && r.y >= r.splitAtY) {
+      spawned.push(...splitMirv(state, r, events));
+      return;
+    }
+    if (!advanceRocket(r)) return;
+
+    r.isDestroyed = true;
+    state.stats.rocketsThrough++;
+    state.cities.forEach(c => {
+      if (!c.isDestroyed && Math.abs(c.x - r.targetX) < 15 && Math.abs(c.y - r.targetY) < 15) {
+        c.isDestroyed = true;
+        events.push({ type: 'cityHit', cityId: c.id });
+      }
+    });
+    state.batteries.forEach(b => {
+      if (!b.isDestroyed && Math.abs(b.x - r.targetX) < 20 && Math.abs(b.y - r.targetY) < 20) {
+        b.health--;
+        if (b.health <= 0) {
+          b.health = 0;
+          b.isDestroyed = true;
+        }
+        events.push({ type: 'batteryHit', batteryId: b.id, health: b.health, isDestroyed: b.isDestroyed });
+      }
+    });
+    state.explosions.push({
+      id: r.id, x: r.x, y: r.y, radius: 2, maxRadius: state.config.EXPLOSION_MAX_RADIUS, growthRate: state.config.EXPLOSION_GROWTH_RATE, isFinished: false, phase: 'growing',
+    });
+    events.push({ type: 'explosion', x: r.x, y: r.y });
+  });
+  state.rockets.push(...spawned);
+};
+
+const moveInterceptors = (state: GameState, rocketGrid: RocketGrid, events: GameEvent[]) => {
+  const { width, height } = state;
+  state.interceptors.forEach(i => {
+    i.x += i.vx;
+    i.y += i.vy;
+
+    // Check proximity with rockets
+    const fuse = state.config.ROCKET_BASE_RADIUS * 3;
+    rocketGrid.forEachNear(i.x, i.y, fuse * MAX_RADIUS_SCALE, r => {
+      if (r.isDestroyed) return;
+      const dx = r.x - i.x;
+      const dy = r.y - i.y;
+      const range = fuse * ROCKET_KINDS[r.kind].radiusScale;
+      // Trigger explosion if within 3x rocket radius
+      if (dx * dx + dy * dy < range * range) {
+        if (!i.isExploded) state.stats.hits++;
+        i.isExploded = true;
+        damageRocket(state, r, i.id, events, i.owner);
+        state.explosions.push({
+          id: i.id,
+          owner: i.owner,
+          x: i.x,
+          y: i.y,
+          radius: 2,
+          maxRadius: state.config.EXPLOSION_MAX_RADIUS * state.config.COLLISION_EXPLOSION_MULTIPLIER,
+          growthRate: state.config.EXPLOSION_GROWTH_RATE * 2,
+          isFinished: false,
+          phase: 'growing',
+        });
+        events.push({ type: 'explosion', x: i.x, y: i.y });
+      }
+    });
+
+    // Remove if off screen
+    if (i.x < -50 || i.x > width + 50 || i.y < -50 || i.y > height + 50) {
+      i.isExploded = true;
+    }
+  });
+};
+
+const updateExplosions = (state: GameState, rocketGrid: RocketGrid, events: GameEvent[]) => {
+  state.explosions.forEach(e => {
+    if (e.phase === 'growing') {
+      e.radius += e.growthRate;
+      if (e.radius >= e.maxRadius) e.phase = 'shrinking';
+    } else {
+      e.radius -= e.growthRate * state.config.EXPLOSION_SHRINK_RATE;
+      if (e.radius <= 0) {
+        e.isFinished = true;
+        delete state.chainKills[e.id];
+      }
+    }
+    if (e.radius <= 0) return;
+    const r2 = e.radius * e.radius;
+    rocketGrid.forEachNear(e.x, e.y, e.radius, r => {
+      if (r.isDestroyed) return;
+      const dx = r.x - e.x;
+      const dy = r.y - e.y;
+      if (dx * dx + dy * dy < r2) damageRocket(state, r, e.id, events, e.owner);
+    });
+  });
+};
+
+const tallyLevel = (state: GameState): LevelTally => {
+  const cities = state.cities.filter(c => !c.isDestroyed).length;
+  const ammo = state.batteries.reduce((sum, b) => sum + (b.isDestroyed ? 0 : b.ammo), 0);
+  const cityBonus = cities * state.config.CITY_BONUS;
+  const ammoBonus = ammo * state.config.AMMO_BONUS;
+  return { cities, cityBonus, ammo, ammoBonus, total: cityBonus + ammoBonus };
+};
+
+const checkOutcome = (state: GameState, events: GameEvent[]) => {
+  // The last city falling only ends the game once the reserve is spent
+  if (state.reserveCities > 0 && state.cities.every(c => c.isDestroyed)) {
+    const city = state.cities[Math.floor(state.cities.length / 2)];
+    city.isDestroyed = false;
+    state.reserveCities--;
+    events.push({ type: 'cityRebuilt', cityId: city.id, reserveCities: state.reserveCities });
+  }
+  if (state.cities.every(c => c.isDestroyed)) {
+    state.outcome = 'lost';
+    events.push({ type: 'gameOver', level: state.level });
+  } else if (state.mode === 'campaign' && state.rocketsToSpawn === 0 && state.rockets.length === 0) {
+    state.outcome = 'levelComplete';
+    const tally = tallyLevel(state);
+    events.push({ type: 'levelComplete', level: state.level, tally });
+    earnPoints(state, tally.total, events);
+  }
+};
+
+// Advance the simulation by exactly one fixed step.
+export const tick = (state: GameState, events: GameEvent[] = []) => {
+  if (state.outcome !== 'playing') return events;
+
+  spawnRockets(state, events);
+  moveRockets(state, events);
+  const rocketGrid = getRocketGrid(state);
+  rocketGrid.reset(state.width, state.height);
+  state.rockets.forEach(r => {
+    if (!r.isDestroyed) rocketGrid.insert(r);
+  });
+  moveInterceptors(state, rocketGrid, events);
+  updateExplosions(state, rocketGrid, events);
+
+  state.rockets = state.rockets.filter(r => !r.isDestroyed);
+  state.interceptors = state.interceptors.filter(i => !i.isExploded);
+  state.explosions = state.explosions.filter(e => !e.isFinished);
+  state.tick++;
+  state.spawnClock += state.director?.rate ?? 1;
+  updateDirector(state);
+
+  checkOutcome(state, events);
+  return events;
+};
+
+// Apply inputs, then run as many fixed steps as `dtMs` covers. Leftover time is
+// carried in the accumulator so the game runs at the same speed on any refresh rate.
+export const step = (state: GameState, dtMs: number, inputs: GameInputs = {}): GameEvent[] => {
+  const events: GameEvent[] = [];
+  if (state.outcome !== 'playing') return events;
+
+  inputs.fire?.forEach(cmd => fire(state, cmd, events));
+  inputs.launch?.forEach(cmd => launch(state, cmd, events));
+
+  state.accumulator += Math.min(Math.max(dtMs, 0), GAME_CONFIG.MAX_FRAME_MS);
+  while (state.accumulator >= FIXED_STEP_MS && state.outcome === 'playing') {
+    state.accumulator -= FIXED_STEP_MS;
+    tick(state, events);
+  }
+  return events;
+};
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  FireCommand,
+  GameEvent,
+  GameOutcome,
+  GameState,
+  GAME_CONFIG,
+  LaunchCommand,
+  LevelSetup,
+  UpgradeId,
+  UpgradeLevels,
+  WorldState,
+} from '../types';
+import { createLevelState, FIXED_STEP_MS, step } from './engine';
+import { validateWaves } from './waves';
+import { DIFFICULTIES } from './difficulty';
+import { UPGRADES } from './upgrades';
+
+export const REPLAY_VERSION = 2;
+
+export interface RecordedFire extends FireCommand {
+  tick: number;
+}
+
+export interface RecordedLaunch extends LaunchCommand {
+  tick: number;
+}
+
+export interface LevelReplay {
+  setup: LevelSetup;
+  inputs: RecordedFire[];
+  launches?: RecordedLaunch[]; // versus: the attacker's rockets
+  spent?: number; // score spent in the armory right before this level
+}
+
+export interface ReplayFile {
+  version: number;
+  seed: number;
+  createdAt: string;
+  levels: LevelReplay[];
+  finalScore: number;
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+// `recorded` continues a run recorded earlier, e.g. one restored from a save
+export const createReplayRecorder = (seed: number, recorded: LevelReplay[] = []) => {
+  const levels: LevelReplay[] = recorded.map(l => ({ ...l, setup: { ...l.setup }, inputs: [...l.inputs], launches: l.launches && [...l.launches] }));
+  let pendingSpend = 0;
+
+  return {
+    seed,
+    beginLevel(setup: LevelSetup) {
+      levels.push({ setup: { ...setup }, inputs: [], spent: pendingSpend });
+      pendingSpend = 0;
+    },
+    // Drop the attempt in progress, e.g. when the player restarts the level
+    discardLevel() {
+      pendingSpend = levels.pop()?.spent ?? 0;
+    },
+    recordSpend(points: number) {
+      pendingSpend += points;
+    },
+    // `tick` is the simulation tick the command is applied on, i.e. `state.tick` before `step`.
+    recordFire(tick: number, cmd: FireCommand) {
+      levels[levels.length - 1]?.inputs.push({ tick, ...cmd });
+    },
+    recordLaunch(tick: number, cmd: LaunchCommand) {
+      const level = levels[levels.length - 1];
+      if (!level) return;
+      level.launches ??= [];
+      level.launches.push({ tick, ...cmd });
+    },
+    finish(finalScore: number): ReplayFile {
+      return {
+        version: REPLAY_VERSION,
+        seed,
+        createdAt: new Date().toISOString(),
+        levels: levels.map(l => ({ ...l, setup: { ...l.setup }, inputs: [...l.inputs], launches: l.launches && [...l.launches] })),
+        finalScore,
+      };
+    },
+  };
+};
+
+export type ReplayRecorder = ReturnType<typeof createReplayRecorder>;
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+const isOneOf = (v: unknown, options: readonly string[]) => typeof v === 'string' && options.includes(v);
+
+// Upgrade levels go straight into the level's config, so only known upgrades within their range
+const isUpgradeLevels = (u: unknown): u is UpgradeLevels =>
+  isObject(u) &&
+  Object.entries(u).every(([id, level]) => Object.hasOwn(UPGRADES, id) && isCount(level) && level <= UPGRADES[id as UpgradeId].maxLevel);
+
+const isWorld = (w: unknown): w is WorldState =>
+  isObject(w) &&
+  Array.isArray(w.batteryHealth) &&
+  w.batteryHealth.every(h => isNumber(h) && h >= 0) &&
+  Array.isArray(w.citiesAlive) &&
+  w.citiesAlive.length === GAME_CONFIG.CITY_COUNT &&
+  w.citiesAlive.every(alive => typeof alive === 'boolean') &&
+  (w.reserveCities === undefined || isCount(w.reserveCities)) &&
+  (w.bonusProgress === undefined || isNumber(w.bonusProgress));
+
+export const parseReplay = (json: string): ReplayFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ReplayError('Replay is not valid JSON');
+  }
+  if (!isObject(data)) throw new ReplayError('Replay must be an object');
+  if (data.version !== REPLAY_VERSION) {
+    throw new ReplayError(`Unsupported replay version ${data.version} (expected ${REPLAY_VERSION})`);
+  }
+  const { levels } = data;
+  if (!isNumber(data.seed) || !isNumber(data.finalScore) || !Array.isArray(levels) || levels.length === 0) {
+    throw new ReplayError('Replay is missing seed, finalScore or levels');
+  }
+  levels.forEach((l: unknown, i) => {
+    const s = isObject(l) ? l.setup : undefined;
+    if (!isObject(l) || !isObject(s) || !isNumber(s.level) || !isNumber(s.width) || !isNumber(s.height) || !isNumber(s.seed)) {
+      throw new ReplayError(`Level ${i} has an invalid setup`);
+    }
+    if (s.mode !== undefined && !isOneOf(s.mode, ['campaign', 'endless', 'daily'])) {
+      throw new ReplayError(`Level ${i} has an unknown mode`);
+    }
+    if (s.difficulty !== undefined && !(typeof s.difficulty === 'string' && Object.hasOwn(DIFFICULTIES, s.difficulty))) {
+      throw new ReplayError(`Level ${i} has an unknown difficulty`);
+    }
+    if (s.adaptive !== undefined && typeof s.adaptive !== 'boolean') {
+      throw new ReplayError(`Level ${i} has an invalid adaptive flag`);
+    }
+    if (s.players !== undefined && !isOneOf(s.players, ['solo', 'coop', 'versus'])) {
+      throw new ReplayError(`Level ${i} has an unknown player mode`);
+    }
+    if (s.upgrades !== undefined && !isUpgradeLevels(s.upgrades)) {
+      throw new ReplayError(`Level ${i} has invalid upgrades`);
+    }
+    if (s.world !== undefined && !isWorld(s.world)) {
+      throw new ReplayError(`Level ${i} has an invalid world`);
+    }
+    const waveProblems = s.waves === undefined ? [] : validateWaves(s.waves, `levels[${i}].setup.waves`);
+    if (waveProblems.length) throw new ReplayError(`Level ${i} has an invalid wave script: ${waveProblems[0]}`);
+    if (!Array.isArray(l.inputs) || !l.inputs.every(f => isObject(f) && isNumber(f.tick) && isNumber(f.x) && isNumber(f.y))) {
+      throw new ReplayError(`Level ${i} has invalid inputs`);
+    }
+    if (l.launches !== undefined && !(Array.isArray(l.launches) && l.launches.every(c => isObject(c) && isNumber(c.tick) && isNumber(c.x) && typeof c.targetId === 'string'))) {
+      throw new ReplayError(`Level ${i} has invalid launches`);
+    }
+    if (l.spent !== undefined && !isNumber(l.spent)) {
+      throw new ReplayError(`Level ${i} has an invalid spent amount`);
+    }
+  });
+  return data as unknown as ReplayFile;
+};
+
+// Feeds recorded inputs back into the engine on the exact ticks they were applied.
+export const createReplayPlayer = (level: LevelReplay) => {
+  const byTick = new Map<number, FireCommand[]>();
+  level.inputs.forEach(({ tick, ...cmd }) => {
+    byTick.set(tick, [...(byTick.get(tick) ?? []), cmd]);
+  });
+  const launchesByTick = new Map<number, LaunchCommand[]>();
+  level.launches?.forEach(({ tick, ...cmd }) => {
+    launchesByTick.set(tick, [...(launchesByTick.get(tick) ?? []), cmd]);
+  });
+  let accumulator = 0;
+
+  const advanceTick = (state: GameState, events: GameEvent[]) => {
+    events.push(...step(state, FIXED_STEP_MS, { fire: byTick.get(state.tick), launch: launchesByTick.get(state.tick) }));
+  };
+
+  return {
+    advance(state: GameState, dtMs: number): GameEvent[] {
+      const events: GameEvent[] = [];
+      accumulator += Math.min(Math.max(dtMs, 0), GAME_CONFIG.MAX_FRAME_MS);
+      while (accumulator >= FIXED_STEP_MS && state.outcome === 'playing') {
+        accumulator -= FIXED_STEP_MS;
+        advanceTick(state, events);
+      }
+      return events;
+    },
+    advanceTick,
+  };
+};
+
+export interface ReplayResult {
+  score: number;
+  outcomes: GameOutcome[];
+  matches: boolean;
+}
+
+// Re-run a whole replay headlessly and check it reproduces the recorded score.
+export const simulateReplay = (replay: ReplayFile): ReplayResult => {
+  let score = 0;
+  const outcomes = replay.levels.map(level => {
+    score -= level.spent ?? 0;
+    const state = createLevelState(level.setup);
+    const player = createReplayPlayer(level);
+    // Survival runs last until the cities fall; give them far more room
+    const maxMinutes = (level.setup.mode ?? 'campaign') === 'campaign' ? 10 : 240;
+    const maxTicks = GAME_CONFIG.TICKS_PER_SECOND * GAME_CONFIG.LEVEL_DURATION_SEC * maxMinutes;
+    while (state.outcome === 'playing' && state.tick < maxTicks) {
+      const events: GameEvent[] = [];
+      player.advanceTick(state, events);
+      events.forEach(e => {
+        if (e.type === 'rocketDestroyed') score += e.points;
+        else if (e.type === 'levelComplete') score += e.tally.total;
+      });
+    }
+    return state.outcome;
+  });
+  return { score, outcomes, matches: score === replay.finalScore };
+};
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Mulberry32: small, fast and good enough for gameplay. The whole generator
+// state is one 32-bit integer, so it can live inside plain serializable state.
+const mulberry32 = (s: number): [number, number] => {
+  const next = (s + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+};
+
+export interface RngHolder {
+  rngState: number;
+}
+
+// Draw from the generator stored on `holder`, advancing it in place.
+export const random = (holder: RngHolder) => {
+  const [value, next] = mulberry32(holder.rngState);
+  holder.rngState = next;
+  return value;
+};
+
+export const createRng = (seed: number) => {
+  const holder = { rngState: seed | 0 };
+  return () => random(holder);
+};
+
+// Mix a base seed with extra parts (level number, mode name...) into a new seed.
+export const deriveSeed = (seed: number, ...parts: (number | string)[]) => {
+  let h = (seed ^ 0x9e3779b9) | 0;
+  for (const part of parts) {
+    const str = String(part);
+    for (let i = 0; i < str.length; i++) {
+      h = Math.imul(h ^ str.charCodeAt(i), 0x01000193);
+    }
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  }
+  return (h ^ (h >>> 13)) | 0;
+};
+
+export const createSeed = () => Math.floor(Math.random() * 0x100000000) | 0;
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Rocket, RocketKind, GAME_CONFIG } from '../types';
+
+export interface RocketKindConfig {
+  points: number;
+  speedMultiplier: number;
+  radiusScale: number; // scales the proximity-fuse radius
+  armor: number; // blasts absorbed before the rocket is destroyed
+  introducedAt: number; // first level the kind can spawn at
+  weight: number; // relative spawn weight once fully phased in
+}
+
+export const ROCKET_KINDS: Record<RocketKind, RocketKindConfig> = {
+  standard: { points: GAME_CONFIG.POINTS_PER_ROCKET, speedMultiplier: 1, radiusScale: 1, armor: 0, introducedAt: 1, weight: 6 },
+  dart: { points: 30, speedMultiplier: 2.2, radiusScale: 0.6, armor: 0, introducedAt: 5, weight: 2 },
+  armored: { points: 40, speedMultiplier: 0.7, radiusScale: 1.2, armor: 1, introducedAt: 12, weight: 1.5 },
+  mirv: { points: 50, speedMultiplier: 0.8, radiusScale: 1.3, armor: 0, introducedAt: 20, weight: 1 },
+  evader: { points: 35, speedMultiplier: 1, radiusScale: 0.9, armor: 0, introducedAt: 30, weight: 1.5 },
+  // Only ever created by a MIRV split
+  warhead: { points: 10, speedMultiplier: 1.3, radiusScale: 0.7, armor: 0, introducedAt: Infinity, weight: 0 },
+};
+
+// Levels over which a new kind ramps from a trickle to its full weight
+const PHASE_IN_LEVELS = 15;
+
+export const MIRV_WARHEADS = 3;
+const MIRV_SPLIT_MIN = 0.3; // fraction of screen height
+const MIRV_SPLIT_MAX = 0.5;
+const EVADER_AMPLITUDE = 60;
+const EVADER_WAVES = 3;
+
+export const getKindWeights = (level: number): [RocketKind, number][] =>
+  (Object.keys(ROCKET_KINDS) as RocketKind[])
+    .filter(kind => level >= ROCKET_KINDS[kind].introducedAt)
+    .map(kind => {
+      const { introducedAt, weight } = ROCKET_KINDS[kind];
+      return [kind, weight * Math.min(1, (level - introducedAt + 1) / PHASE_IN_LEVELS)];
+    });
+
+export const pickRocketKind = (level: number, random: () => number): RocketKind => {
+  const weights = getKindWeights(level);
+  const total = weights.reduce((sum, [, w]) => sum + w, 0);
+  let roll = random() * total;
+  for (const [kind, w] of weights) {
+    roll -= w;
+    if (roll < 0) return kind;
+  }
+  return 'standard';
+};
+
+export const getSplitAltitude = (height: number, random: () => number) =>
+  height * (MIRV_SPLIT_MIN + random() * (MIRV_SPLIT_MAX - MIRV_SPLIT_MIN));
+
+// Move a rocket one tick toward its target. Returns true once it arrives.
+export const advanceRocket = (r: Rocket) => {
+  if (r.kind === 'evader') {
+    // Weave around the straight flight path, tightening as it closes in
+    const lx = r.targetX - r.originX;
+    const ly = r.targetY - r.originY;
+    const length = Math.sqrt(lx * lx + ly * ly) || 1;
+    r.progress = Math.min(1, r.progress + r.speed / length);
+    const offset = EVADER_AMPLITUDE * Math.sin(r.progress * EVADER_WAVES * Math.PI * 2) * (1 - r.progress);
+    r.x = r.originX + lx * r.progress - (ly / length) * offset;
+    r.y = r.originY + ly * r.progress + (lx / length) * offset;
+    return r.progress >= 1;
+  }
+
+  const dx = r.targetX - r.x;
+  const dy = r.targetY - r.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist < r.speed) return true;
+  r.x += (dx / dist) * r.speed;
+  r.y += (dy / dist) * r.speed;
+  return false;
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Point } from '../types';
+
+// Uniform grid over the world for broad-phase collision queries. Items are
+// bucketed by the cell containing their position; a query visits only the
+// cells overlapping the query circle, leaving the exact squared-distance test
+// to the caller. Positions outside the world (evaders weaving past the edge,
+// rockets just spawned above the top) are clamped into the border cells, and
+// queries are clamped the same way, so nothing is ever missed.
+export const createSpatialGrid = <T extends Point>(cellSize: number) => {
+  let cols = 0;
+  let rows = 0;
+  let cells: T[][] = [];
+  const used: T[][] = []; // buckets filled since the last reset
+
+  const col = (x: number) => Math.min(cols - 1, Math.max(0, Math.floor(x / cellSize)));
+  const row = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor(y / cellSize)));
+
+  return {
+    // Empty the grid, sizing it for the world. Buckets are kept while the world
+    // size stays the same, so a grid rebuilt every tick only allocates when a
+    // bucket grows past anything it has held before.
+    reset(width: number, height: number) {
+      const nextCols = Math.max(1, Math.ceil(width / cellSize));
+      const nextRows = Math.max(1, Math.ceil(height / cellSize));
+      if (nextCols !== cols || nextRows !== rows) {
+        cols = nextCols;
+        rows = nextRows;
+        cells = Array.from({ length: cols * rows }, () => []);
+      }
+      for (let n = 0; n < used.length; n++) used[n].length = 0;
+      used.length = 0;
+    },
+    insert(item: T) {
+      const bucket = cells[row(item.y) * cols + col(item.x)];
+      if (bucket.length === 0) used.push(bucket);
+      bucket.push(item);
+    },
+    // Calls visit for every item in a cell that may lie within radius of (x, y)
+    forEachNear(x: number, y: number, radius: number, visit: (item: T) => void) {
+      const minCol = col(x - radius);
+      const maxCol = col(x + radius);
+      const maxRow = row(y + radius);
+      for (let r = row(y - radius); r <= maxRow; r++) {
+        for (let c = minCol; c <= maxCol; c++) {
+          const bucket = cells[r * cols + c];
+          for (let n = 0; n < bucket.length; n++) visit(bucket[n]);
+        }
+      }
+    },
+  };
+};
+
+export type SpatialGrid<T extends Point> = ReturnType<typeof createSpatialGrid<T>>;
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameConfig, GAME_CONFIG, UpgradeId, UpgradeLevels, WorldState } from '../types';
+
+export interface UpgradeDef {
+  maxLevel: number;
+  baseCost: number; // cost of the first level; each further level costs one more multiple
+  apply: (config: GameConfig, level: number) => GameConfig;
+}
+
+// Each upgrade is a pure transform of the config, so stacking order doesn't matter
+// and the engine never needs to know which upgrades exist.
+export const UPGRADES: Record<UpgradeId, UpgradeDef> = {
+  ammo: {
+    maxLevel: 5,
+    baseCost: 400,
+    apply: (config, level) => ({ ...config, AMMO_MULTIPLIER: config.AMMO_MULTIPLIER * (1 + 0.1 * level) }),
+  },
+  blastRadius: {
+    maxLevel: 5,
+    baseCost: 500,
+    apply: (config, level) => ({ ...config, EXPLOSION_MAX_RADIUS: config.EXPLOSION_MAX_RADIUS * (1 + 0.12 * level) }),
+  },
+  interceptorSpeed: {
+    maxLevel: 5,
+    baseCost: 300,
+    apply: (config, level) => ({ ...config, INTERCEPTOR_SPEED: config.INTERCEPTOR_SPEED * (1 + 0.15 * level) }),
+  },
+  blastDuration: {
+    maxLevel: 5,
+    baseCost: 350,
+    // Slower collapse keeps the cloud up longer
+    apply: (config, level) => ({ ...config, EXPLOSION_SHRINK_RATE: config.EXPLOSION_SHRINK_RATE / (1 + 0.2 * level) }),
+  },
+};
+
+export const REPAIR_COST = 250; // per battery health point
+export const REBUILD_COST = 1000; // per city
+
+export const applyUpgrades = (levels: UpgradeLevels = {}, base: GameConfig = GAME_CONFIG): GameConfig =>
+  (Object.keys(UPGRADES) as UpgradeId[]).reduce(
+    (config, id) => (levels[id] ? UPGRADES[id].apply(config, levels[id]!) : config),
+    base,
+  );
+
+export interface Loadout {
+  upgrades: UpgradeLevels;
+  world?: WorldState; // undefined means a fresh set of cities and batteries
+}
+
+export type ArmoryItem =
+  | { type: 'upgrade'; id: UpgradeId }
+  | { type: 'repair'; battery: number }
+  | { type: 'rebuild'; city: number };
+
+// Price of an item, or null when it can't be bought right now
+export const getItemCost = (loadout: Loadout, item: ArmoryItem): number | null => {
+  switch (item.type) {
+    case 'upgrade': {
+      const level = loadout.upgrades[item.id] ?? 0;
+      const def = UPGRADES[item.id];
+      return level < def.maxLevel ? def.baseCost * (level + 1) : null;
+    }
+    case 'repair': {
+      const health = loadout.world?.batteryHealth[item.battery];
+      return health !== undefined && health < GAME_CONFIG.BATTERY_MAX_HEALTH ? REPAIR_COST : null;
+    }
+    case 'rebuild':
+      return loadout.world && !loadout.world.citiesAlive[item.city] ? REBUILD_COST : null;
+  }
+};
+
+export const applyPurchase = (loadout: Loadout, item: ArmoryItem): Loadout => {
+  switch (item.type) {
+    case 'upgrade':
+      return { ...loadout, upgrades: { ...loadout.upgrades, [item.id]: (loadout.upgrades[item.id] ?? 0) + 1 } };
+    case 'repair': {
+      if (!loadout.world) return loadout;
+      const batteryHealth = [...loadout.world.batteryHealth];
+      batteryHealth[item.battery] = Math.min(GAME_CONFIG.BATTERY_MAX_HEALTH, batteryHealth[item.battery] + 1);
+      return { ...loadout, world: { ...loadout.world, batteryHealth } };
+    }
+    case 'rebuild': {
+      if (!loadout.world) return loadout;
+      const citiesAlive = [...loadout.world.citiesAlive];
+      citiesAlive[item.city] = true;
+      return { ...loadout, world: { ...loadout.world, citiesAlive } };
+    }
+  }
+};
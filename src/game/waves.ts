@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_CONFIG, WaveEntry, WaveTarget } from '../types';
+import { ROCKET_KINDS } from './rocketKinds';
+import waveData from '../data/waves.json';
+
+// Wave scripts say when, where from, how fast and at what each level's rockets
+// come in. Levels live in src/data/waves.json; any level the file doesn't cover
+// (or all of them, if the file fails validation) uses `generateWaves`.
+
+export interface WaveScript {
+  version: number;
+  levels: Record<string, WaveEntry[]>;
+}
+
+export const WAVE_SCRIPT_VERSION = 1;
+
+export class WaveScriptError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid wave script:\n  ${problems.join('\n  ')}`);
+    this.name = 'WaveScriptError';
+    this.problems = problems;
+  }
+}
+
+const ENTRY_KEYS = new Set(['at', 'count', 'interval', 'jitter', 'origin', 'target', 'speed', 'kind']);
+const TARGET_RULES = new Set(['random', 'cities', 'batteries']);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRange = (v: unknown, min: number, max: number): v is [number, number] =>
+  Array.isArray(v) && v.length === 2 && isNumber(v[0]) && isNumber(v[1]) && min <= v[0] && v[0] <= v[1] && v[1] <= max;
+
+// Every problem with one level's entries, each prefixed with where it was found
+export const validateWaves = (entries: unknown, path: string): string[] => {
+  if (!Array.isArray(entries) || entries.length === 0) return [`${path}: must be a non-empty array of wave entries`];
+  const problems: string[] = [];
+  entries.forEach((e: any, i) => {
+    const at = `${path}[${i}]`;
+    if (!e || typeof e !== 'object' || Array.isArray(e)) {
+      problems.push(`${at}: must be an object`);
+      return;
+    }
+    Object.keys(e).filter(k => !ENTRY_KEYS.has(k)).forEach(k => problems.push(`${at}.${k}: unknown field`));
+    const validAt = isNumber(e.at) && e.at >= 0 && e.at < GAME_CONFIG.LEVEL_DURATION_SEC;
+    const validCount = Number.isInteger(e.count) && e.count >= 1;
+    if (!validAt) problems.push(`${at}.at: must be a number of seconds from 0 to below ${GAME_CONFIG.LEVEL_DURATION_SEC}`);
+    if (!validCount) problems.push(`${at}.count: must be a positive integer`);
+    if (e.interval !== undefined && (!isNumber(e.interval) || e.interval < 0)) {
+      problems.push(`${at}.interval: must be a number of seconds, 0 or more`);
+    } else if (validAt && validCount && e.at + (e.interval ?? 0) * (e.count - 1) > GAME_CONFIG.LEVEL_DURATION_SEC) {
+      problems.push(`${at}: last spawn lands after the ${GAME_CONFIG.LEVEL_DURATION_SEC}s level ends`);
+    }
+    if (e.jitter !== undefined && (!isNumber(e.jitter) || e.jitter < 0 || e.jitter > 1)) {
+      problems.push(`${at}.jitter: must be between 0 and 1`);
+    }
+    if (e.origin !== undefined && !isRange(e.origin, 0, 1)) {
+      problems.push(`${at}.origin: must be [min, max] with 0 <= min <= max <= 1`);
+    }
+    if (e.speed !== undefined && (!isRange(e.speed, 0, Infinity) || e.speed[0] <= 0)) {
+      problems.push(`${at}.speed: must be [min, max] with 0 < min <= max`);
+    }
+    if (e.target !== undefined && !TARGET_RULES.has(e.target)) {
+      const city = e.target?.city;
+      if (typeof e.target !== 'object' || !Number.isInteger(city) || city < 0 || city >= GAME_CONFIG.CITY_COUNT) {
+        problems.push(`${at}.target: must be "random", "cities", "batteries" or { "city": 0-${GAME_CONFIG.CITY_COUNT - 1} }`);
+      }
+    }
+    if (e.kind !== undefined && !Object.hasOwn(ROCKET_KINDS, e.kind)) {
+      problems.push(`${at}.kind: unknown rocket kind "${e.kind}"`);
+    }
+  });
+  return problems;
+};
+
+export const parseWaveScript = (data: unknown): WaveScript => {
+  const script = data as any;
+  if (!script || typeof script !== 'object') throw new WaveScriptError(['script must be an object']);
+  if (script.version !== WAVE_SCRIPT_VERSION) {
+    throw new WaveScriptError([`version: expected ${WAVE_SCRIPT_VERSION}, got ${script.version}`]);
+  }
+  if (!script.levels || typeof script.levels !== 'object') throw new WaveScriptError(['levels: must be an object keyed by level']);
+  const problems: string[] = [];
+  Object.entries(script.levels).forEach(([key, entries]) => {
+    const level = Number(key);
+    if (!Number.isInteger(level) || level < 1 || level > GAME_CONFIG.TOTAL_LEVELS) {
+      problems.push(`levels.${key}: level must be 1-${GAME_CONFIG.TOTAL_LEVELS}`);
+      return;
+    }
+    problems.push(...validateWaves(entries, `levels.${key}`));
+  });
+  if (problems.length) throw new WaveScriptError(problems);
+  return script as WaveScript;
+};
+
+export const getRocketsForLevel = (l: number) => {
+  if (l >= GAME_CONFIG.TOTAL_LEVELS) return GAME_CONFIG.LEVEL_100_ROCKETS;
+  const range = GAME_CONFIG.LEVEL_100_ROCKETS - GAME_CONFIG.LEVEL_1_ROCKETS;
+  return Math.floor(GAME_CONFIG.LEVEL_1_ROCKETS + (l - 1) * (range / (GAME_CONFIG.TOTAL_LEVELS - 1)));
+};
+
+const GENERATED_SEGMENTS = 6;
+
+// The original difficulty curve as a script: the level's rockets spread over
+// the whole minute, with the rate ramping from 0.4x to 1.6x as time runs out.
+export const generateWaves = (level: number): WaveEntry[] => {
+  const total = getRocketsForLevel(level);
+  const length = GAME_CONFIG.LEVEL_DURATION_SEC / GENERATED_SEGMENTS;
+  const weights = Array.from({ length: GENERATED_SEGMENTS }, (_, i) => 0.4 + ((i + 0.5) / GENERATED_SEGMENTS) * 1.2);
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  let assigned = 0;
+  return weights.map((w, i) => {
+    const count = i === GENERATED_SEGMENTS - 1 ? total - assigned : Math.round((total * w) / weightSum);
+    assigned += count;
+    return { at: i * length, count, interval: length / count, jitter: 1 };
+  });
+};
+
+// Rocket-kind mix for a survival minute: a few campaign levels further each minute
+export const getSurvivalLevel = (stage: number) =>
+  Math.min(GAME_CONFIG.TOTAL_LEVELS, 1 + (stage - 1) * GAME_CONFIG.SURVIVAL_LEVEL_STEP);
+
+const SURVIVAL_TARGETS: WaveTarget[] = ['random', 'random', 'cities', 'batteries'];
+
+// One minute of survival play. Group sizes follow a single rising line across
+// the whole run, so pressure never dips at a minute boundary. `random` picks
+// each group's flank and target rule, which makes the seed the pattern.
+export const generateSurvivalWaves = (stage: number, random: () => number): WaveEntry[] => {
+  const length = GAME_CONFIG.LEVEL_DURATION_SEC / GENERATED_SEGMENTS;
+  return Array.from({ length: GENERATED_SEGMENTS }, (_, i) => {
+    const minutes = stage - 1 + (i + 0.5) / GENERATED_SEGMENTS;
+    const perMinute = GAME_CONFIG.LEVEL_1_ROCKETS + minutes * GAME_CONFIG.SURVIVAL_RAMP;
+    const count = Math.max(1, Math.round(perMinute / GENERATED_SEGMENTS));
+    const span = 0.4 + random() * 0.6;
+    const start = random() * (1 - span);
+    const rule = Math.floor(random() * (SURVIVAL_TARGETS.length + 1));
+    const target = rule < SURVIVAL_TARGETS.length
+      ? SURVIVAL_TARGETS[rule]
+      : { city: Math.floor(random() * GAME_CONFIG.CITY_COUNT) };
+    return { at: i * length, count, interval: length / count, jitter: 1, origin: [start, start + span], target };
+  });
+};
+
+const loadScript = (): WaveScript | null => {
+  try {
+    return parseWaveScript(waveData);
+  } catch (e) {
+    console.error(`${(e as Error).message}\nFalling back to generated waves for every level.`);
+    return null;
+  }
+};
+
+const script = loadScript();
+
+export const getLevelWaves = (level: number): WaveEntry[] => script?.levels[level] ?? generateWaves(level);
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Catalog } from './index';
+
+export const cn: Catalog = {
+  start: '开始游戏',
+  win: '胜利！',
+  loss: '游戏结束',
+  levelComplete: '关卡完成！',
+  level: '关卡',
+  winMsg: '关卡已清除！下一个挑战在等待。',
+  lossMsg: '所有城市已被摧毁。文明已经沦陷。',
+  restart: '从第一关重新开始',
+  nextLevel: '下一局',
+  endGame: '结束游戏',
+  ammo: '弹药',
+  instructions: '点击屏幕任意位置拦截敌方火箭。保卫城市！',
+  rocketsLeft: '剩余火箭',
+  tacticalScore: '战术得分',
+  operationTime: '行动时间',
+  finalScore: '最终得分',
+  watchReplay: '观看回放',
+  saveReplay: '保存回放',
+  replay: '回放',
+  replayInvalid: '无法加载回放：{error}',
+  paused: '已暂停',
+  pausedMsg: '计时已停止。按 Esc 或 P 继续。',
+  resume: '继续',
+  restartLevel: '重新开始本关',
+  victoryMsg: '全部100波攻击已被击退。城市将铭记Tina新星。',
+  continueLevel: '继续 · 第 {n} 关',
+  resumeMission: '继续任务',
+  levelSelect: '选择关卡',
+  best: '最佳',
+  bestScore: '最佳 {score}',
+  leaderboard: '排行榜',
+  global: '全球',
+  mine: '我的记录',
+  callsign: '代号',
+  submitScore: '提交',
+  rank: '全球排名',
+  leaderboardOffline: '排行榜离线',
+  noRuns: '暂无记录',
+  armory: '军械库',
+  armoryMsg: '在下一波攻击前用得分进行修理和升级。',
+  repairs: '修理',
+  rebuild: '重建',
+  upgrades: '升级',
+  deploy: '出击',
+  maxed: '已满',
+  city: '城市',
+  'battery.left': '左侧炮台',
+  'battery.center': '中央炮台',
+  'battery.right': '右侧炮台',
+  fireMode: '火控模式',
+  'fireModes.nearest': '最近',
+  'fireModes.manual': '手动',
+  'fireModes.mostAmmo': '弹药最多',
+  'upgrade.ammo': '弹药储备',
+  'upgrade.blastRadius': '爆炸半径',
+  'upgrade.interceptorSpeed': '拦截弹速度',
+  'upgrade.blastDuration': '爆炸持续时间',
+  cityBonus: '城市幸存',
+  ammoBonus: '剩余弹药',
+  bonusTotal: '关卡奖励',
+  shotsFired: '发射',
+  hits: '命中',
+  accuracy: '命中率',
+  kills: '击毁',
+  rocketsThrough: '突破防线',
+  bestChain: '最佳连锁',
+  reserve: '后备城市',
+  bonusCity: '奖励城市',
+  endless: '无尽生存',
+  daily: '每日挑战',
+  dailyPlayed: '今日已挑战 · 练习',
+  dailyPractice: '练习',
+  minute: '第 {n} 分钟',
+  resupply: '补给',
+  playAgain: '再玩一次',
+  survived: '坚持时间',
+  survivedMinutes: { other: '坚持了 {count} 分钟' },
+  volumeMaster: '总音量',
+  volumeSfx: '音效',
+  volumeMusic: '音乐',
+  mute: '静音',
+  unmute: '取消静音',
+  language: '语言',
+  accessibility: '无障碍',
+  palette: '配色',
+  'palette.default': '标准',
+  'palette.redGreen': '红绿色盲友好',
+  'palette.blueYellow': '蓝黄色盲友好',
+  motion: '动画',
+  'motion.system': '跟随系统',
+  'motion.reduced': '减少',
+  'motion.full': '完整',
+  highContrast: '高对比度界面',
+  quality: '画质',
+  'quality.high': '高',
+  'quality.low': '低',
+  briefings: '任务简报',
+  on: '开',
+  off: '关',
+  briefing: '任务简报',
+  report: '战后报告',
+  transmissionWaiting: '正在接收通讯…',
+  dismiss: '关闭',
+  difficulty: '难度',
+  'difficulty.easy': '简单',
+  'difficulty.normal': '普通',
+  'difficulty.hard': '困难',
+  'difficulty.nightmare': '噩梦',
+  adaptive: '自适应难度',
+  director: '难度调节',
+  directorRate: '生成速度',
+  directorSpeed: '火箭速度',
+  directorAdjustments: '加难 / 减难',
+  players: '玩家',
+  'players.solo': '单人',
+  'players.coop': '合作',
+  'players.versus': '对战',
+  'players.coop.hint': '玩家 1 用鼠标或触摸瞄准，负责左侧和中央炮台。玩家 2 用键盘或手柄移动准星，负责右侧炮台。',
+  'players.versus.hint': '玩家 1 用鼠标或触摸防守。玩家 2 用键盘或手柄进攻：左右移动发射点，上下（或肩键）选择目标，空格或扳机发射。',
+  player: '玩家 {n}',
+  playerShort: 'P{n}',
+  defender: '防守方',
+  attacker: '进攻方',
+  launched: '发射',
+  strikes: '命中',
+  score: '得分',
+  winner: '胜者',
+  'announce.levelStart': { other: '第 {n} 关开始。{count} 枚火箭来袭。' },
+  'announce.survivalStart': '生存模式开始。尽可能坚持下去。',
+  'announce.cityDestroyed': { other: '一座城市被摧毁。剩余 {count} 座城市。' },
+  'announce.lowAmmo': { other: '弹药不足。剩余 {count} 枚拦截弹。' },
+  'announce.levelComplete': '第 {n} 关完成。得分 {score}。',
+  'announce.gameOver': '游戏结束。最终得分 {score}。',
+};
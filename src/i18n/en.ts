@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Message } from './index';
+
+// English is the reference catalog: it defines every key, and any key another
+// locale leaves out is shown in English instead.
+export const en = {
+  start: 'Start Game',
+  win: 'Victory!',
+  loss: 'Game Over',
+  levelComplete: 'Level Complete!',
+  level: 'Level',
+  winMsg: 'Level cleared! Next challenge awaits.',
+  lossMsg: 'All cities destroyed. Civilization has fallen.',
+  restart: 'Restart from Level 1',
+  nextLevel: 'Next Level',
+  endGame: 'Quit to Menu',
+  ammo: 'Ammo',
+  instructions: 'Tap anywhere to intercept incoming rockets. Protect the cities!',
+  rocketsLeft: 'Rockets',
+  tacticalScore: 'Tactical Score',
+  operationTime: 'Operation Time',
+  finalScore: 'Final Score',
+  watchReplay: 'Watch Replay',
+  saveReplay: 'Save Replay',
+  replay: 'Replay',
+  replayInvalid: 'Could not load replay: {error}',
+  paused: 'Paused',
+  pausedMsg: 'The clock is stopped. Press Esc or P to resume.',
+  resume: 'Resume',
+  restartLevel: 'Restart Level',
+  victoryMsg: 'All 100 waves repelled. The cities will remember Tina Nova.',
+  continueLevel: 'Continue · Level {n}',
+  resumeMission: 'Resume mission',
+  levelSelect: 'Select Level',
+  best: 'Best',
+  bestScore: 'Best {score}',
+  leaderboard: 'Leaderboard',
+  global: 'Global',
+  mine: 'My Runs',
+  callsign: 'Callsign',
+  submitScore: 'Submit',
+  rank: 'Global rank',
+  leaderboardOffline: 'Leaderboard offline',
+  noRuns: 'No runs yet',
+  armory: 'Armory',
+  armoryMsg: 'Spend score on repairs and upgrades before the next wave.',
+  repairs: 'Repairs',
+  rebuild: 'Rebuild',
+  upgrades: 'Upgrades',
+  deploy: 'Deploy',
+  maxed: 'MAX',
+  city: 'City',
+  'battery.left': 'Left Battery',
+  'battery.center': 'Center Battery',
+  'battery.right': 'Right Battery',
+  fireMode: 'Fire Control',
+  'fireModes.nearest': 'Nearest',
+  'fireModes.manual': 'Manual',
+  'fireModes.mostAmmo': 'Most Ammo',
+  'upgrade.ammo': 'Ammo Reserves',
+  'upgrade.blastRadius': 'Blast Radius',
+  'upgrade.interceptorSpeed': 'Interceptor Speed',
+  'upgrade.blastDuration': 'Blast Duration',
+  cityBonus: 'Cities saved',
+  ammoBonus: 'Ammo left',
+  bonusTotal: 'Level bonus',
+  shotsFired: 'Shots',
+  hits: 'Hits',
+  accuracy: 'Accuracy',
+  kills: 'Kills',
+  rocketsThrough: 'Got through',
+  bestChain: 'Best chain',
+  reserve: 'Reserve',
+  bonusCity: 'BONUS CITY',
+  endless: 'Endless Survival',
+  daily: 'Daily Challenge',
+  dailyPlayed: 'Played today · practice',
+  dailyPractice: 'Practice',
+  minute: 'Minute {n}',
+  resupply: 'RESUPPLY',
+  playAgain: 'Play Again',
+  survived: 'Survived',
+  survivedMinutes: { one: 'Held out for {count} minute', other: 'Held out for {count} minutes' },
+  volumeMaster: 'Master',
+  volumeSfx: 'Effects',
+  volumeMusic: 'Music',
+  mute: 'Mute',
+  unmute: 'Unmute',
+  language: 'Language',
+  accessibility: 'Accessibility',
+  palette: 'Colors',
+  'palette.default': 'Standard',
+  'palette.redGreen': 'Red-green safe',
+  'palette.blueYellow': 'Blue-yellow safe',
+  motion: 'Motion',
+  'motion.system': 'System',
+  'motion.reduced': 'Reduced',
+  'motion.full': 'Full',
+  highContrast: 'High contrast HUD',
+  quality: 'Graphics',
+  'quality.high': 'High',
+  'quality.low': 'Low',
+  briefings: 'Mission briefings',
+  on: 'On',
+  off: 'Off',
+  briefing: 'Mission briefing',
+  report: 'After-action report',
+  transmissionWaiting: 'Incoming transmission…',
+  dismiss: 'Dismiss',
+  difficulty: 'Difficulty',
+  'difficulty.easy': 'Easy',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Hard',
+  'difficulty.nightmare': 'Nightmare',
+  adaptive: 'Adaptive director',
+  director: 'Director',
+  directorRate: 'Spawn rate',
+  directorSpeed: 'Rocket speed',
+  directorAdjustments: 'Harder / easier',
+  players: 'Players',
+  'players.solo': 'Solo',
+  'players.coop': 'Co-op',
+  'players.versus': 'Versus',
+  'players.coop.hint': 'Player 1 aims with the mouse or touch and holds the left and centre batteries. Player 2 steers a crosshair with the keyboard or a gamepad and holds the right battery.',
+  'players.versus.hint': 'Player 1 defends with the mouse or touch. Player 2 attacks with the keyboard or a gamepad: left/right moves the launch point, up/down (or the bumpers) picks a target, Space or a trigger launches.',
+  player: 'Player {n}',
+  playerShort: 'P{n}',
+  defender: 'Defender',
+  attacker: 'Attacker',
+  launched: 'Launched',
+  strikes: 'Strikes',
+  score: 'Score',
+  winner: 'Winner',
+  'announce.levelStart': { one: 'Level {n} started. {count} rocket incoming.', other: 'Level {n} started. {count} rockets incoming.' },
+  'announce.survivalStart': 'Survival started. Hold out as long as you can.',
+  'announce.cityDestroyed': { one: 'City destroyed. {count} city left.', other: 'City destroyed. {count} cities left.' },
+  'announce.lowAmmo': { one: 'Low ammo. {count} interceptor left.', other: 'Low ammo. {count} interceptors left.' },
+  'announce.levelComplete': 'Level {n} complete. Score {score}.',
+  'announce.gameOver': 'Game over. Final score {score}.',
+} satisfies Record<string, Message>;
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Catalog } from './index';
+
+export const es: Catalog = {
+  start: 'Empezar',
+  win: '¡Victoria!',
+  loss: 'Fin de la partida',
+  levelComplete: '¡Nivel completado!',
+  level: 'Nivel',
+  winMsg: '¡Nivel superado! Te espera el siguiente desafío.',
+  lossMsg: 'Todas las ciudades han caído. La civilización ha sucumbido.',
+  restart: 'Reiniciar desde el nivel 1',
+  nextLevel: 'Siguiente nivel',
+  endGame: 'Volver al menú',
+  ammo: 'Munición',
+  instructions: 'Toca en cualquier lugar para interceptar los cohetes. ¡Protege las ciudades!',
+  rocketsLeft: 'Cohetes',
+  tacticalScore: 'Puntuación táctica',
+  operationTime: 'Tiempo de operación',
+  finalScore: 'Puntuación final',
+  watchReplay: 'Ver repetición',
+  saveReplay: 'Guardar repetición',
+  replay: 'Repetición',
+  replayInvalid: 'No se pudo cargar la repetición: {error}',
+  paused: 'En pausa',
+  pausedMsg: 'El reloj está detenido. Pulsa Esc o P para continuar.',
+  resume: 'Continuar',
+  restartLevel: 'Reiniciar nivel',
+  victoryMsg: 'Las 100 oleadas han sido rechazadas. Las ciudades recordarán a Tina Nova.',
+  continueLevel: 'Continuar · Nivel {n}',
+  resumeMission: 'Reanudar misión',
+  levelSelect: 'Elegir nivel',
+  best: 'Récord',
+  bestScore: 'Récord {score}',
+  leaderboard: 'Clasificación',
+  global: 'Global',
+  mine: 'Mis partidas',
+  callsign: 'Indicativo',
+  submitScore: 'Enviar',
+  rank: 'Puesto global',
+  leaderboardOffline: 'Clasificación sin conexión',
+  noRuns: 'Aún no hay partidas',
+  armory: 'Arsenal',
+  armoryMsg: 'Gasta puntos en reparaciones y mejoras antes de la próxima oleada.',
+  repairs: 'Reparaciones',
+  rebuild: 'Reconstruir',
+  upgrades: 'Mejoras',
+  deploy: 'Desplegar',
+  maxed: 'MÁX',
+  city: 'Ciudad',
+  'battery.left': 'Batería izquierda',
+  'battery.center': 'Batería central',
+  'battery.right': 'Batería derecha',
+  fireMode: 'Control de tiro',
+  'fireModes.nearest': 'Más cercana',
+  'fireModes.manual': 'Manual',
+  'fireModes.mostAmmo': 'Más munición',
+  'upgrade.ammo': 'Reserva de munición',
+  'upgrade.blastRadius': 'Radio de explosión',
+  'upgrade.interceptorSpeed': 'Velocidad del interceptor',
+  'upgrade.blastDuration': 'Duración de la explosión',
+  cityBonus: 'Ciudades salvadas',
+  ammoBonus: 'Munición restante',
+  bonusTotal: 'Bonificación',
+  shotsFired: 'Disparos',
+  hits: 'Aciertos',
+  accuracy: 'Precisión',
+  kills: 'Derribos',
+  rocketsThrough: 'Se colaron',
+  bestChain: 'Mejor cadena',
+  reserve: 'Reserva',
+  bonusCity: 'CIUDAD EXTRA',
+  endless: 'Supervivencia',
+  daily: 'Desafío diario',
+  dailyPlayed: 'Jugado hoy · práctica',
+  dailyPractice: 'Práctica',
+  minute: 'Minuto {n}',
+  resupply: 'REABASTECIMIENTO',
+  playAgain: 'Jugar de nuevo',
+  survived: 'Resistido',
+  survivedMinutes: { one: 'Resististe {count} minuto', other: 'Resististe {count} minutos' },
+  volumeMaster: 'General',
+  volumeSfx: 'Efectos',
+  volumeMusic: 'Música',
+  mute: 'Silenciar',
+  unmute: 'Activar sonido',
+  language: 'Idioma',
+  accessibility: 'Accesibilidad',
+  palette: 'Colores',
+  'palette.default': 'Estándar',
+  'palette.redGreen': 'Apto rojo-verde',
+  'palette.blueYellow': 'Apto azul-amarillo',
+  motion: 'Movimiento',
+  'motion.system': 'Sistema',
+  'motion.reduced': 'Reducido',
+  'motion.full': 'Completo',
+  highContrast: 'HUD de alto contraste',
+  quality: 'Gráficos',
+  'quality.high': 'Altos',
+  'quality.low': 'Bajos',
+  briefings: 'Informes de misión',
+  on: 'Sí',
+  off: 'No',
+  briefing: 'Informe de misión',
+  report: 'Informe de combate',
+  transmissionWaiting: 'Recibiendo transmisión…',
+  dismiss: 'Cerrar',
+  difficulty: 'Dificultad',
+  'difficulty.easy': 'Fácil',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Difícil',
+  'difficulty.nightmare': 'Pesadilla',
+  adaptive: 'Director adaptativo',
+  director: 'Director',
+  directorRate: 'Ritmo de aparición',
+  directorSpeed: 'Velocidad de cohetes',
+  directorAdjustments: 'Más difícil / más fácil',
+  players: 'Jugadores',
+  'players.solo': 'Individual',
+  'players.coop': 'Cooperativo',
+  'players.versus': 'Versus',
+  'players.coop.hint': 'El jugador 1 apunta con el ratón o la pantalla táctil y controla las baterías izquierda y central. El jugador 2 mueve una mira con el teclado o un mando y controla la batería derecha.',
+  'players.versus.hint': 'El jugador 1 defiende con el ratón o la pantalla táctil. El jugador 2 ataca con el teclado o un mando: izquierda/derecha mueve el punto de lanzamiento, arriba/abajo (o los bumpers) elige objetivo, Espacio o un gatillo lanza.',
+  player: 'Jugador {n}',
+  playerShort: 'J{n}',
+  defender: 'Defensor',
+  attacker: 'Atacante',
+  launched: 'Lanzados',
+  strikes: 'Impactos',
+  score: 'Puntos',
+  winner: 'Ganador',
+  'announce.levelStart': { one: 'Nivel {n} iniciado. {count} cohete en camino.', other: 'Nivel {n} iniciado. {count} cohetes en camino.' },
+  'announce.survivalStart': 'Supervivencia iniciada. Resiste todo lo que puedas.',
+  'announce.cityDestroyed': { one: 'Ciudad destruida. Queda {count} ciudad.', other: 'Ciudad destruida. Quedan {count} ciudades.' },
+  'announce.lowAmmo': { one: 'Munición baja. Queda {count} interceptor.', other: 'Munición baja. Quedan {count} interceptores.' },
+  'announce.levelComplete': 'Nivel {n} completado. Puntuación {score}.',
+  'announce.gameOver': 'Fin de la partida. Puntuación final {score}.',
+};
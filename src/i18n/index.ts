@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { en } from './en';
+import { cn } from './cn';
+import { ja } from './ja';
+import { es } from './es';
+
+// UI text lives in one catalog per locale. Messages can carry `{name}`
+// placeholders and, for counted things, one form per CLDR plural category
+// selected by `vars.count`. Numbers passed as vars are formatted for the locale.
+
+export type Locale = 'en' | 'cn' | 'ja' | 'es';
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof en;
+export type Catalog = Partial<Record<MessageKey, Message>>;
+
+type Vars = Record<string, string | number>;
+
+// Order here is the order the language button cycles through
+export const LOCALES: Record<Locale, { tag: string; label: string }> = {
+  en: { tag: 'en', label: 'EN' },
+  cn: { tag: 'zh-CN', label: '中文' },
+  ja: { tag: 'ja', label: '日本語' },
+  es: { tag: 'es', label: 'ES' },
+};
+
+const CATALOGS: Record<Locale, Catalog> = { en, cn, ja, es };
+
+export const nextLocale = (locale: Locale): Locale => {
+  const order = Object.keys(LOCALES) as Locale[];
+  return order[(order.indexOf(locale) + 1) % order.length];
+};
+
+// First supported language in the browser's preference list, else English
+export const detectLocale = (): Locale => {
+  if (typeof navigator === 'undefined') return 'en';
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of languages) {
+    const base = language?.toLowerCase().split('-')[0];
+    if (base === 'zh') return 'cn';
+    if (base === 'en' || base === 'ja' || base === 'es') return base;
+  }
+  return 'en';
+};
+
+const warned = new Set<string>();
+
+export const createTranslator = (locale: Locale) => {
+  const { tag } = LOCALES[locale];
+  const numbers = new Intl.NumberFormat(tag);
+  const plurals = new Intl.PluralRules(tag);
+  const formatNumber = (n: number) => numbers.format(n);
+
+  const lookup = (key: MessageKey): Message => {
+    const message = CATALOGS[locale][key];
+    if (message !== undefined) return message;
+    if (process.env.NODE_ENV !== 'production' && !warned.has(`${locale}:${key}`)) {
+      warned.add(`${locale}:${key}`);
+      console.warn(`Missing "${key}" in the ${locale} catalog; showing English`);
+    }
+    return en[key];
+  };
+
+  const t = (key: MessageKey, vars: Vars = {}) => {
+    const message = lookup(key);
+    const text = typeof message === 'string'
+      ? message
+      : message[plurals.select(Number(vars.count ?? 0))] ?? message.other;
+    return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = vars[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? formatNumber(value) : value;
+    });
+  };
+
+  return { locale, tag, t, formatNumber };
+};
+
+export type Translator = ReturnType<typeof createTranslator>;
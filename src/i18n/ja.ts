@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Catalog } from './index';
+
+export const ja: Catalog = {
+  start: 'ゲーム開始',
+  win: '勝利！',
+  loss: 'ゲームオーバー',
+  levelComplete: 'レベルクリア！',
+  level: 'レベル',
+  winMsg: 'レベルクリア！次の挑戦が待っている。',
+  lossMsg: 'すべての都市が破壊された。文明は滅びた。',
+  restart: 'レベル1からやり直す',
+  nextLevel: '次のレベル',
+  endGame: 'メニューに戻る',
+  ammo: '弾薬',
+  instructions: '画面をタップして飛来するロケットを迎撃しよう。都市を守れ！',
+  rocketsLeft: 'ロケット',
+  tacticalScore: '戦術スコア',
+  operationTime: '作戦時間',
+  finalScore: '最終スコア',
+  watchReplay: 'リプレイを見る',
+  saveReplay: 'リプレイを保存',
+  replay: 'リプレイ',
+  replayInvalid: 'リプレイを読み込めません：{error}',
+  paused: '一時停止',
+  pausedMsg: '時間は止まっています。Esc または P で再開。',
+  resume: '再開',
+  restartLevel: 'レベルをやり直す',
+  victoryMsg: '全100ウェーブを撃退した。都市はTina Novaを忘れない。',
+  continueLevel: '続きから · レベル {n}',
+  resumeMission: 'ミッションを再開',
+  levelSelect: 'レベル選択',
+  best: 'ベスト',
+  bestScore: 'ベスト {score}',
+  leaderboard: 'ランキング',
+  global: '世界',
+  mine: '自分の記録',
+  callsign: 'コールサイン',
+  submitScore: '送信',
+  rank: '世界順位',
+  leaderboardOffline: 'ランキングはオフラインです',
+  noRuns: '記録はまだありません',
+  armory: '武器庫',
+  armoryMsg: '次のウェーブの前にスコアを使って修理と強化をしよう。',
+  repairs: '修理',
+  rebuild: '再建',
+  upgrades: '強化',
+  deploy: '出撃',
+  maxed: '最大',
+  city: '都市',
+  'battery.left': '左砲台',
+  'battery.center': '中央砲台',
+  'battery.right': '右砲台',
+  fireMode: '射撃管制',
+  'fireModes.nearest': '最寄り',
+  'fireModes.manual': '手動',
+  'fireModes.mostAmmo': '弾薬最多',
+  'upgrade.ammo': '弾薬備蓄',
+  'upgrade.blastRadius': '爆発半径',
+  'upgrade.interceptorSpeed': '迎撃弾速度',
+  'upgrade.blastDuration': '爆発持続時間',
+  cityBonus: '残った都市',
+  ammoBonus: '残弾',
+  bonusTotal: 'レベルボーナス',
+  shotsFired: '発射',
+  hits: '命中',
+  accuracy: '命中率',
+  kills: '撃墜',
+  rocketsThrough: '突破された',
+  bestChain: '最大連鎖',
+  reserve: '予備都市',
+  bonusCity: 'ボーナス都市',
+  endless: 'エンドレス',
+  daily: 'デイリーチャレンジ',
+  dailyPlayed: '本日プレイ済み · 練習',
+  dailyPractice: '練習',
+  minute: '{n} 分目',
+  resupply: '補給',
+  playAgain: 'もう一度',
+  survived: '生存時間',
+  survivedMinutes: { other: '{count} 分間持ちこたえた' },
+  volumeMaster: 'マスター',
+  volumeSfx: '効果音',
+  volumeMusic: '音楽',
+  mute: 'ミュート',
+  unmute: 'ミュート解除',
+  language: '言語',
+  accessibility: 'アクセシビリティ',
+  palette: '配色',
+  'palette.default': '標準',
+  'palette.redGreen': '赤緑色覚対応',
+  'palette.blueYellow': '青黄色覚対応',
+  motion: 'アニメーション',
+  'motion.system': 'システム設定',
+  'motion.reduced': '控えめ',
+  'motion.full': 'すべて',
+  highContrast: 'ハイコントラストHUD',
+  quality: 'グラフィック',
+  'quality.high': '高',
+  'quality.low': '低',
+  briefings: 'ミッションブリーフィング',
+  on: 'オン',
+  off: 'オフ',
+  briefing: 'ミッションブリーフィング',
+  report: '戦闘報告',
+  transmissionWaiting: '通信を受信中…',
+  dismiss: '閉じる',
+  difficulty: '難易度',
+  'difficulty.easy': 'イージー',
+  'difficulty.normal': 'ノーマル',
+  'difficulty.hard': 'ハード',
+  'difficulty.nightmare': 'ナイトメア',
+  adaptive: '難易度の自動調整',
+  director: '自動調整',
+  directorRate: '出現ペース',
+  directorSpeed: 'ロケット速度',
+  directorAdjustments: '強化 / 緩和',
+  players: 'プレイヤー',
+  'players.solo': 'ひとり',
+  'players.coop': '協力',
+  'players.versus': '対戦',
+  'players.coop.hint': 'プレイヤー1はマウスかタッチで狙い、左と中央の砲台を担当。プレイヤー2はキーボードかゲームパッドで照準を動かし、右の砲台を担当します。',
+  'players.versus.hint': 'プレイヤー1はマウスかタッチで防衛。プレイヤー2はキーボードかゲームパッドで攻撃：左右で発射地点、上下（またはLB/RB）で目標を選び、スペースかトリガーで発射します。',
+  player: 'プレイヤー{n}',
+  playerShort: 'P{n}',
+  defender: '防衛側',
+  attacker: '攻撃側',
+  launched: '発射数',
+  strikes: '命中数',
+  score: 'スコア',
+  winner: '勝者',
+  'announce.levelStart': { other: 'レベル {n} 開始。ロケット {count} 発が接近中。' },
+  'announce.survivalStart': 'サバイバル開始。できるだけ長く持ちこたえよう。',
+  'announce.cityDestroyed': { other: '都市が破壊された。残り {count} 都市。' },
+  'announce.lowAmmo': { other: '弾薬残りわずか。迎撃弾は残り {count} 発。' },
+  'announce.levelComplete': 'レベル {n} クリア。スコア {score}。',
+  'announce.gameOver': 'ゲームオーバー。最終スコア {score}。',
+};
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Point } from './types';
+
+// One input layer for every device. Pointers (mouse, pen, each finger),
+// keyboard and gamepads are all reduced to the same small command stream,
+// which the game drains once per frame.
+//
+// With two players the pointer belongs to the first and the keyboard and
+// gamepad to the second, who steers a cursor of their own. Every command
+// says whose it is.
+
+export type InputSource = 'pointer' | 'keyboard' | 'gamepad';
+
+export type InputCommand =
+  | { type: 'fire'; x: number; y: number; source: InputSource; player: number; batteryIndex?: number }
+  | { type: 'cycleBattery'; delta: -1 | 1; player: number };
+
+export interface InputOptions {
+  // Map a client (CSS pixel) position to game coordinates
+  toWorld: (clientX: number, clientY: number) => Point;
+  getBounds: () => { width: number; height: number };
+  // Only claim keys (preventDefault) while this returns true
+  isActive: () => boolean;
+  // When true, 1/2/3 and A/S/D fire from a specific battery and WASD does not steer
+  batteryKeys: () => boolean;
+  players: () => 1 | 2;
+  // When true, the keyboard and gamepad cursor only slides sideways and
+  // up/down cycle instead, as the versus attacker picks launch point and target
+  sidewaysOnly: () => boolean;
+}
+
+const KEYBOARD_SPEED = 600; // px per second
+const GAMEPAD_SPEED = 900;
+const STICK_DEADZONE = 0.15;
+const TRIGGER_THRESHOLD = 0.5;
+
+const STEER_KEYS: Record<string, Point> = {
+  arrowup: { x: 0, y: -1 },
+  arrowdown: { x: 0, y: 1 },
+  arrowleft: { x: -1, y: 0 },
+  arrowright: { x: 1, y: 0 },
+  w: { x: 0, y: -1 },
+  s: { x: 0, y: 1 },
+  a: { x: -1, y: 0 },
+  d: { x: 1, y: 0 },
+};
+const WASD = new Set(['w', 'a', 's', 'd']);
+const CYCLE_KEYS: Record<string, -1 | 1> = { arrowup: -1, w: -1, arrowdown: 1, s: 1 };
+const BATTERY_KEYS: Record<string, number> = { '1': 0, '2': 1, '3': 2, a: 0, s: 1, d: 2 };
+const FIRE_KEYS = new Set([' ', 'enter']);
+
+// Standard gamepad mapping
+const GAMEPAD_LB = 4;
+const GAMEPAD_RB = 5;
+const GAMEPAD_LT = 6;
+const GAMEPAD_RT = 7;
+
+export const createInputController = (options: InputOptions) => {
+  const queue: InputCommand[] = [];
+  const held = new Set<string>();
+  // The pointer's, then the second player's; one player steers the first with everything
+  const cursors: Point[] = [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+  const cursor = cursors[0];
+  let crosshairVisible = false; // shown once the keyboard or a gamepad steers
+  let prevButtons: boolean[] = [];
+  let target: HTMLElement | null = null;
+
+  // Who the keyboard and gamepad belong to
+  const devicePlayer = () => (options.players() > 1 ? 1 : 0);
+
+  const clampCursor = (c: Point) => {
+    const { width, height } = options.getBounds();
+    c.x = Math.min(Math.max(c.x, 0), width);
+    c.y = Math.min(Math.max(c.y, 0), height);
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    // Every finger gets its own pointerdown, so multi-touch fires one shot per touch
+    if (!options.isActive() || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    e.preventDefault();
+    const p = options.toWorld(e.clientX, e.clientY);
+    cursor.x = p.x;
+    cursor.y = p.y;
+    crosshairVisible = false;
+    queue.push({ type: 'fire', x: p.x, y: p.y, source: 'pointer', player: 0 });
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    if (e.pointerType !== 'mouse') return;
+    const p = options.toWorld(e.clientX, e.clientY);
+    cursor.x = p.x;
+    cursor.y = p.y;
+    crosshairVisible = false;
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (!options.isActive()) return;
+    const key = e.key.toLowerCase();
+    const batteryKeys = options.batteryKeys();
+    const player = devicePlayer();
+    const c = cursors[player];
+
+    if (batteryKeys && key in BATTERY_KEYS) {
+      e.preventDefault();
+      if (!e.repeat) queue.push({ type: 'fire', x: c.x, y: c.y, source: 'keyboard', player, batteryIndex: BATTERY_KEYS[key] });
+      return;
+    }
+    if (FIRE_KEYS.has(key)) {
+      e.preventDefault();
+      if (!e.repeat) queue.push({ type: 'fire', x: c.x, y: c.y, source: 'keyboard', player });
+      return;
+    }
+    if (options.sidewaysOnly() && key in CYCLE_KEYS) {
+      e.preventDefault();
+      if (!e.repeat) queue.push({ type: 'cycleBattery', delta: CYCLE_KEYS[key], player });
+      return;
+    }
+    if (key in STEER_KEYS && !(batteryKeys && WASD.has(key))) {
+      e.preventDefault();
+      held.add(key);
+      crosshairVisible = true;
+    }
+  };
+
+  const onKeyUp = (e: KeyboardEvent) => {
+    held.delete(e.key.toLowerCase());
+  };
+
+  const onBlur = () => {
+    held.clear();
+  };
+
+  const pollGamepad = (dtSec: number) => {
+    const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+    const pad = Array.from(pads).find(p => p && p.connected);
+    if (!pad) return;
+    const player = devicePlayer();
+    const c = cursors[player];
+
+    const [ax = 0, stickY = 0] = pad.axes;
+    const ay = options.sidewaysOnly() ? 0 : stickY;
+    const magnitude = Math.sqrt(ax * ax + ay * ay);
+    if (magnitude > STICK_DEADZONE) {
+      // Rescale past the deadzone so small tilts still give fine control
+      const scale = ((magnitude - STICK_DEADZONE) / (1 - STICK_DEADZONE)) / magnitude;
+      c.x += ax * scale * GAMEPAD_SPEED * dtSec;
+      c.y += ay * scale * GAMEPAD_SPEED * dtSec;
+      crosshairVisible = true;
+    }
+
+    const pressed = pad.buttons.map((b, i) => (i === GAMEPAD_LT || i === GAMEPAD_RT ? b.value > TRIGGER_THRESHOLD : b.pressed));
+    const justPressed = (i: number) => pressed[i] && !prevButtons[i];
+    if (justPressed(GAMEPAD_LT) || justPressed(GAMEPAD_RT)) {
+      queue.push({ type: 'fire', x: c.x, y: c.y, source: 'gamepad', player });
+    }
+    if (justPressed(GAMEPAD_LB)) queue.push({ type: 'cycleBattery', delta: -1, player });
+    if (justPressed(GAMEPAD_RB)) queue.push({ type: 'cycleBattery', delta: 1, player });
+    prevButtons = pressed;
+  };
+
+  return {
+    cursor,
+    cursors,
+    get crosshairVisible() {
+      return crosshairVisible;
+    },
+    attach(element: HTMLElement) {
+      target = element;
+      element.addEventListener('pointerdown', onPointerDown);
+      element.addEventListener('pointermove', onPointerMove);
+      window.addEventListener('keydown', onKeyDown);
+      window.addEventListener('keyup', onKeyUp);
+      window.addEventListener('blur', onBlur);
+    },
+    detach() {
+      target?.removeEventListener('pointerdown', onPointerDown);
+      target?.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      target = null;
+    },
+    // Advance held keys and gamepad state; call once per frame
+    update(dtMs: number) {
+      const dtSec = dtMs / 1000;
+      const c = cursors[devicePlayer()];
+      held.forEach(key => {
+        const dir = STEER_KEYS[key];
+        c.x += dir.x * KEYBOARD_SPEED * dtSec;
+        c.y += dir.y * KEYBOARD_SPEED * dtSec;
+      });
+      pollGamepad(dtSec);
+      cursors.forEach(clampCursor);
+    },
+    // Take every command queued since the last call
+    drain(): InputCommand[] {
+      return queue.splice(0, queue.length);
+    },
+  };
+};
+
+export type InputController = ReturnType<typeof createInputController>;
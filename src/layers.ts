@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Viewport } from './viewport';
+
+// An offscreen canvas holding part of the scene that rarely changes. The
+// caller passes a key describing what the layer shows; the layer repaints only
+// when that key or the viewport changed, and is otherwise copied onto the main
+// canvas with a single drawImage.
+export const createLayer = () => {
+  let canvas: HTMLCanvasElement | null = null;
+  let drawnFor: Viewport | null = null;
+  let drawnKey: string | number | null = null;
+
+  return {
+    // `draw` gets a context already in world units, like setWorldTransform
+    update(vp: Viewport, width: number, height: number, key: string | number, draw: (ctx: CanvasRenderingContext2D) => void) {
+      if (canvas && drawnFor === vp && drawnKey === key) return;
+      canvas ??= document.createElement('canvas');
+      const s = vp.scale * vp.dpr;
+      const pixelWidth = Math.max(1, Math.round(width * s));
+      const pixelHeight = Math.max(1, Math.round(height * s));
+      // Resizing clears the canvas; otherwise clear it ourselves
+      if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+        canvas.width = pixelWidth;
+        canvas.height = pixelHeight;
+      }
+      const ctx = canvas.getContext('2d')!;
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, pixelWidth, pixelHeight);
+      ctx.setTransform(s, 0, 0, s, 0, 0);
+      draw(ctx);
+      drawnFor = vp;
+      drawnKey = key;
+    },
+    // Copy onto the main canvas at the world's position, nudged by (dx, dy)
+    // world units for screen shake; leaves ctx in device pixels
+    blit(ctx: CanvasRenderingContext2D, vp: Viewport, dx = 0, dy = 0) {
+      if (!canvas) return;
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.drawImage(canvas, Math.round((vp.offsetX + dx * vp.scale) * vp.dpr), Math.round((vp.offsetY + dy * vp.scale) * vp.dpr));
+    },
+    invalidate() {
+      drawnKey = null;
+    },
+  };
+};
+
+export type Layer = ReturnType<typeof createLayer>;
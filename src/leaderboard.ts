@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LeaderboardEntry, RunSubmission } from './types';
+import { createVersionedStore } from './storage';
+
+// Empty means same origin: the dev server proxies /api, and the leaderboard
+// server serves the built game itself.
+const BASE_URL = process.env.LEADERBOARD_URL || '';
+const TIMEOUT_MS = 4000;
+
+export class LeaderboardUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeaderboardUnavailableError';
+  }
+}
+
+const request = async <T,>(path: string, init?: RequestInit): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    const res = await fetch(`${BASE_URL}/api${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new LeaderboardUnavailableError(body?.error ?? `Leaderboard responded ${res.status}`);
+    }
+    return (await res.json()) as T;
+  } catch (err) {
+    if (err instanceof LeaderboardUnavailableError) throw err;
+    throw new LeaderboardUnavailableError('Leaderboard server unreachable');
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const submitRun = (run: RunSubmission) =>
+  request<{ id: number; rank: number }>('/runs', { method: 'POST', body: JSON.stringify(run) });
+
+export const fetchTopRuns = (limit = 10) =>
+  request<LeaderboardEntry[]>(`/leaderboard?limit=${limit}`);
+
+export const fetchLevelBoard = (level: number, limit = 10) =>
+  request<LeaderboardEntry[]>(`/leaderboard/levels/${level}?limit=${limit}`);
+
+export const fetchPlayerHistory = (name: string, limit = 20) =>
+  request<LeaderboardEntry[]>(`/players/${encodeURIComponent(name)}/runs?limit=${limit}`);
+
+const playerNameStore = createVersionedStore<string>({
+  key: 'tina-nova:player-name',
+  version: 1,
+  defaults: () => '',
+  validate: (data: any): data is string => typeof data === 'string',
+});
+
+export const loadPlayerName = playerNameStore.load;
+export const savePlayerName = playerNameStore.save;
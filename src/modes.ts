@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createVersionedStore } from './storage';
+import { deriveSeed } from './game/rng';
+
+// Best results for the survival modes, kept apart from campaign progress
+export interface ModeRecords {
+  endless: { bestScore: number; bestSeconds: number };
+  daily: {
+    lastDate: string | null; // day of the last scored attempt
+    lastScore: number;
+    bestScore: number;
+  };
+}
+
+const defaultRecords = (): ModeRecords => ({
+  endless: { bestScore: 0, bestSeconds: 0 },
+  daily: { lastDate: null, lastScore: 0, bestScore: 0 },
+});
+
+const isRecords = (data: any): data is ModeRecords =>
+  !!data && typeof data.endless?.bestScore === 'number' && typeof data.daily?.bestScore === 'number';
+
+const store = createVersionedStore<ModeRecords>({
+  key: 'tina-nova:modes',
+  version: 1,
+  defaults: defaultRecords,
+  validate: isRecords,
+});
+
+export const loadModeRecords = store.load;
+export const saveModeRecords = store.save;
+
+// The challenge rolls over at midnight UTC so every player shares the same day
+export const getDailyDate = (now = new Date()) => now.toISOString().slice(0, 10);
+
+export const getDailySeed = (date: string) => deriveSeed(0, 'daily', date);
+
+export const hasPlayedDaily = (records: ModeRecords, date: string) => records.daily.lastDate === date;
+
+// Claim today's scored attempt when the run starts, so quitting can't re-roll it
+export const startDailyAttempt = (records: ModeRecords, date: string): ModeRecords => ({
+  ...records,
+  daily: { ...records.daily, lastDate: date, lastScore: 0 },
+});
+
+export const recordDailyScore = (records: ModeRecords, score: number): ModeRecords => ({
+  ...records,
+  daily: { ...records.daily, lastScore: score, bestScore: Math.max(records.daily.bestScore, score) },
+});
+
+export const recordEndlessRun = (records: ModeRecords, score: number, seconds: number): ModeRecords => ({
+  ...records,
+  endless: {
+    bestScore: Math.max(records.endless.bestScore, score),
+    bestSeconds: Math.max(records.endless.bestSeconds, seconds),
+  },
+});
@@ -0,0 +1,305 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameMode, LevelStats, RocketKind } from './types';
+import { ROCKET_KINDS } from './game/rocketKinds';
+import { createRng, deriveSeed } from './game/rng';
+import { createVersionedStore } from './storage';
+
+// Mission briefings before a level and after-action reports after it. Text
+// comes from a provider: Gemini when an API key is configured, otherwise the
+// offline templates below. Nothing here may hold up play, so every request is
+// bounded by a timeout and any failure quietly falls back to the templates.
+
+export interface BilingualText {
+  en: string;
+  cn: string; // Simplified Chinese
+}
+
+export interface BriefingContext {
+  level: number;
+  mode: GameMode;
+  rockets: number; // expected attackers; 0 for the open-ended survival modes
+  newKinds: RocketKind[]; // kinds that first appear this level
+  citiesStanding: number;
+  reserveCities: number;
+}
+
+export interface ReportContext {
+  level: number;
+  mode: GameMode;
+  won: boolean;
+  stats: LevelStats;
+  citiesLost: number;
+  citiesStanding: number;
+  score: number; // points earned this level
+}
+
+export interface NarrativeProvider {
+  readonly name: string;
+  briefing(ctx: BriefingContext): Promise<BilingualText>;
+  report(ctx: ReportContext): Promise<BilingualText>;
+}
+
+export class NarrativeUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NarrativeUnavailableError';
+  }
+}
+
+const TIMEOUT_MS = 6000;
+export const MAX_CACHED = 200;
+const MAX_LENGTH = 600; // characters per language; longer replies are cut
+
+// Levels where a kind first spawns, for the briefing's threat notes
+export const getNewKinds = (level: number) =>
+  (Object.keys(ROCKET_KINDS) as RocketKind[]).filter(kind => ROCKET_KINDS[kind].introducedAt === level);
+
+const accuracyOf = (stats: LevelStats) => (stats.shotsFired ? Math.round((stats.hits / stats.shotsFired) * 100) : 0);
+
+// --- Offline templates ---
+
+type Line = [en: string, cn: string];
+
+const OPENERS: Line[] = [
+  ['Command to all batteries.', '指挥部呼叫所有炮台。'],
+  ['Radar is lighting up.', '雷达屏幕亮起来了。'],
+  ['Intelligence confirms another strike.', '情报确认敌方将发动新一轮攻击。'],
+  ['Stations, this is Nova Control.', '各站注意，这里是新星指挥中心。'],
+];
+
+const CLOSERS: Line[] = [
+  ['Hold the line.', '坚守防线。'],
+  ['Make every interceptor count.', '让每一枚拦截弹都物尽其用。'],
+  ['Good hunting.', '祝狩猎顺利。'],
+  ['The cities are counting on you.', '城市的安危就靠你们了。'],
+];
+
+const THREATS: Record<RocketKind, Line> = {
+  standard: ['Standard rockets inbound.', '常规火箭来袭。'],
+  dart: ['New threat: darts. They are fast and small, so lead your shots.', '新威胁：飞镖弹。速度快、体积小，射击时要提前量。'],
+  armored: ['New threat: armored rockets. It takes two blasts to bring one down.', '新威胁：装甲火箭。需要两次爆炸才能击落。'],
+  mirv: ['New threat: MIRVs. Stop them high, before they split into warheads.', '新威胁：分导式多弹头。要在高空分裂前将其拦截。'],
+  evader: ['New threat: evaders. They weave as they fall, so aim for the centre of the weave.', '新威胁：规避火箭。它们会左右摆动，瞄准摆动的中心。'],
+  warhead: ['Warheads inbound.', '弹头来袭。'],
+};
+
+const pick = <T,>(items: T[], random: () => number) => items[Math.floor(random() * items.length)];
+
+const join = (lines: Line[]): BilingualText => ({
+  en: lines.map(([en]) => en).join(' '),
+  cn: lines.map(([, cn]) => cn).join(''),
+});
+
+// Deterministic: the same context always reads the same
+export const templateProvider: NarrativeProvider = {
+  name: 'template',
+  async briefing(ctx) {
+    const random = createRng(deriveSeed(0, 'briefing', ctx.mode, ctx.level));
+    const lines: Line[] = [pick(OPENERS, random)];
+    if (ctx.mode === 'campaign') {
+      lines.push([
+        `Level ${ctx.level}: expect ${ctx.rockets} rockets against ${ctx.citiesStanding} standing ${ctx.citiesStanding === 1 ? 'city' : 'cities'}.`,
+        `第 ${ctx.level} 关：预计 ${ctx.rockets} 枚火箭来袭，我们还有 ${ctx.citiesStanding} 座城市。`,
+      ]);
+    } else {
+      lines.push([
+        `The waves will not stop. Protect ${ctx.citiesStanding} ${ctx.citiesStanding === 1 ? 'city' : 'cities'} for as long as you can.`,
+        `攻击不会停止。尽可能久地守护这 ${ctx.citiesStanding} 座城市。`,
+      ]);
+    }
+    ctx.newKinds.forEach(kind => lines.push(THREATS[kind]));
+    if (ctx.reserveCities > 0) {
+      lines.push([
+        `${ctx.reserveCities} reserve ${ctx.reserveCities === 1 ? 'city stands' : 'cities stand'} ready to rebuild.`,
+        `另有 ${ctx.reserveCities} 座后备城市可供重建。`,
+      ]);
+    }
+    lines.push(pick(CLOSERS, random));
+    return join(lines);
+  },
+  async report(ctx) {
+    const { stats } = ctx;
+    const accuracy = accuracyOf(stats);
+    const lines: Line[] = [
+      ctx.mode !== 'campaign'
+        ? ['The line has fallen.', '防线已经失守。']
+        : ctx.won
+          ? [`Level ${ctx.level} secured.`, `第 ${ctx.level} 关防守成功。`]
+          : [`Level ${ctx.level} lost.`, `第 ${ctx.level} 关失守。`],
+      [
+        `${stats.kills} ${stats.kills === 1 ? 'rocket' : 'rockets'} destroyed with ${stats.shotsFired} ${stats.shotsFired === 1 ? 'interceptor' : 'interceptors'} (${accuracy}% accuracy).`,
+        `共发射 ${stats.shotsFired} 枚拦截弹，击毁 ${stats.kills} 枚火箭（命中率 ${accuracy}%）。`,
+      ],
+      ctx.citiesLost === 0
+        ? ['No cities were lost.', '没有城市被摧毁。']
+        : [`${ctx.citiesLost} ${ctx.citiesLost === 1 ? 'city was' : 'cities were'} lost.`, `${ctx.citiesLost} 座城市被摧毁。`],
+    ];
+    if (stats.bestChain >= 3) {
+      lines.push([`Best chain reaction: ${stats.bestChain} rockets in one blast.`, `最佳连锁反应：一次爆炸击毁 ${stats.bestChain} 枚火箭。`]);
+    }
+    if (stats.shotsFired === 0) lines.push(['Not a single shot fired. Bold.', '一发未射，胆量过人。']);
+    else if (accuracy >= 60) lines.push(['Outstanding fire discipline.', '火力控制非常出色。']);
+    else if (accuracy < 30) lines.push(['Conserve ammunition next time.', '下次请节约弹药。']);
+    else lines.push(['Solid work.', '表现稳健。']);
+    return join(lines);
+  },
+};
+
+// --- Gemini ---
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const SYSTEM_INSTRUCTION =
+  'You are the terse radio voice of a missile-defence command in an arcade game where batteries shoot down rockets falling on cities. ' +
+  'Write in character, two to four short sentences, no markdown, no emoji. ' +
+  'Reply with JSON holding the same message twice: "en" in English and "cn" in Simplified Chinese. ' +
+  'Only state numbers that appear in the facts you are given.';
+
+const briefingPrompt = (ctx: BriefingContext) =>
+  `Write the mission briefing read before play starts. Facts: ${JSON.stringify({
+    level: ctx.level,
+    mode: ctx.mode === 'campaign' ? 'campaign' : 'survival (waves never stop)',
+    expectedRockets: ctx.mode === 'campaign' ? ctx.rockets : undefined,
+    newThreats: ctx.newKinds.map(kind => THREATS[kind][0]),
+    citiesStanding: ctx.citiesStanding,
+    reserveCities: ctx.reserveCities,
+  })}`;
+
+const reportPrompt = (ctx: ReportContext) =>
+  `Write the after-action report read once the level is over. Facts: ${JSON.stringify({
+    level: ctx.level,
+    mode: ctx.mode === 'campaign' ? 'campaign' : 'survival',
+    outcome: ctx.won ? 'level cleared' : 'defences overrun',
+    rocketsDestroyed: ctx.stats.kills,
+    interceptorsFired: ctx.stats.shotsFired,
+    accuracyPercent: accuracyOf(ctx.stats),
+    rocketsThatHitTheGround: ctx.stats.rocketsThrough,
+    bestChainReaction: ctx.stats.bestChain,
+    citiesLost: ctx.citiesLost,
+    citiesStanding: ctx.citiesStanding,
+    pointsEarned: ctx.score,
+  })}`;
+
+const isBilingual = (data: any): data is BilingualText =>
+  !!data && typeof data.en === 'string' && typeof data.cn === 'string' && !!data.en.trim() && !!data.cn.trim();
+
+const parseBilingual = (text: string | undefined): BilingualText => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text ?? '');
+  } catch {
+    throw new NarrativeUnavailableError('Narrative reply was not JSON');
+  }
+  if (!isBilingual(data)) throw new NarrativeUnavailableError('Narrative reply is missing a language');
+  return { en: data.en.trim().slice(0, MAX_LENGTH), cn: data.cn.trim().slice(0, MAX_LENGTH) };
+};
+
+export const createGeminiProvider = (apiKey: string): NarrativeProvider => {
+  // The SDK is only fetched once a key is configured and text is first needed
+  let sdk: Promise<typeof import('@google/genai')> | null = null;
+
+  const generate = async (prompt: string) => {
+    sdk ??= import('@google/genai');
+    const { GoogleGenAI, Type } = await sdk;
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: prompt,
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: { en: { type: Type.STRING }, cn: { type: Type.STRING } },
+          required: ['en', 'cn'],
+        },
+        temperature: 0.9,
+        maxOutputTokens: 512,
+      },
+    });
+    return parseBilingual(response.text);
+  };
+
+  return {
+    name: `gemini:${GEMINI_MODEL}`,
+    briefing: ctx => generate(briefingPrompt(ctx)),
+    report: ctx => generate(reportPrompt(ctx)),
+  };
+};
+
+// --- Cache and fallback ---
+
+const cacheStore = createVersionedStore<Record<string, BilingualText>>({
+  key: 'tina-nova:narrative',
+  version: 1,
+  defaults: () => ({}),
+  validate: (data: any): data is Record<string, BilingualText> =>
+    !!data && typeof data === 'object' && Object.values(data).every(isBilingual),
+});
+
+const withTimeout = <T,>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new NarrativeUnavailableError('Narrative provider timed out')), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+// Wraps a provider with a cache keyed by level and result, kept in memory and
+// in localStorage, so a retried level or a reload doesn't ask again. Template
+// fallbacks are not persisted: the provider gets another go next time.
+export const createNarrator = (provider: NarrativeProvider, fallback: NarrativeProvider = templateProvider) => {
+  const cache = cacheStore.load();
+  const pending = new Map<string, Promise<BilingualText>>();
+
+  const remember = (key: string, text: BilingualText) => {
+    cache[key] = text;
+    const keys = Object.keys(cache);
+    // Object keys keep insertion order, so the first ones are the oldest
+    keys.slice(0, Math.max(0, keys.length - MAX_CACHED)).forEach(k => delete cache[k]);
+    cacheStore.save(cache);
+  };
+
+  const get = (key: string, ask: (p: NarrativeProvider) => Promise<BilingualText>): Promise<BilingualText> => {
+    const cached = cache[key];
+    if (cached) return Promise.resolve(cached);
+    let request = pending.get(key);
+    if (!request) {
+      request = withTimeout(ask(provider), TIMEOUT_MS)
+        .then(text => {
+          remember(key, text);
+          return text;
+        })
+        .catch(err => {
+          console.warn(`Narrative from ${provider.name} failed, using templates:`, err);
+          return ask(fallback);
+        })
+        .finally(() => pending.delete(key));
+      pending.set(key, request);
+    }
+    return request;
+  };
+
+  return {
+    provider: provider.name,
+    briefing: (ctx: BriefingContext) =>
+      get(`${provider.name}|briefing|${ctx.mode}|${ctx.level}|${ctx.citiesStanding}|${ctx.reserveCities}`, p => p.briefing(ctx)),
+    report: (ctx: ReportContext) =>
+      get(
+        `${provider.name}|report|${ctx.mode}|${ctx.level}|${ctx.won ? 'won' : 'lost'}|${ctx.stats.kills}|${ctx.stats.shotsFired}|${ctx.stats.hits}|${ctx.stats.bestChain}|${ctx.citiesLost}`,
+        p => p.report(ctx),
+      ),
+  };
+};
+
+export type Narrator = ReturnType<typeof createNarrator>;
+
+// Gemini when the build has a key, else the offline templates
+export const createDefaultNarrator = () => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  return createNarrator(apiKey ? createGeminiProvider(apiKey) : templateProvider);
+};
+
+export const pickLanguage = (text: BilingualText, locale: string) => (locale === 'cn' ? text.cn : text.en);
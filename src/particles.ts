@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Fixed-capacity particle pool for purely cosmetic effects. Particles live in
+// parallel typed arrays, dead ones are swap-removed, and colors are interned
+// once, so emitting, updating and drawing allocate nothing after warm-up.
+// Uses Math.random: effects never touch the seeded gameplay stream.
+
+const DEBRIS = 0;
+const SMOKE = 1;
+const FIRE = 2;
+
+const GRAVITY = 0.0006; // world units per ms²
+
+export const createParticleSystem = (capacity: number) => {
+  const x = new Float32Array(capacity);
+  const y = new Float32Array(capacity);
+  const vx = new Float32Array(capacity);
+  const vy = new Float32Array(capacity);
+  const age = new Float32Array(capacity);
+  const life = new Float32Array(capacity);
+  const size = new Float32Array(capacity);
+  const kind = new Uint8Array(capacity);
+  const color = new Uint8Array(capacity);
+  const colors: string[] = [];
+  const colorIds = new Map<string, number>();
+  let count = 0;
+  let limit = capacity;
+
+  const colorId = (value: string) => {
+    let id = colorIds.get(value);
+    if (id === undefined) {
+      id = colors.length;
+      colors.push(value);
+      colorIds.set(value, id);
+    }
+    return id;
+  };
+
+  // Drops the particle when the pool is full: effects degrade, never stall
+  const emit = (k: number, px: number, py: number, pvx: number, pvy: number, lifeMs: number, s: number, c: string) => {
+    if (count >= limit) return;
+    x[count] = px;
+    y[count] = py;
+    vx[count] = pvx;
+    vy[count] = pvy;
+    age[count] = 0;
+    life[count] = lifeMs;
+    size[count] = s;
+    kind[count] = k;
+    color[count] = colorId(c);
+    count++;
+  };
+
+  const copy = (from: number, to: number) => {
+    x[to] = x[from];
+    y[to] = y[from];
+    vx[to] = vx[from];
+    vy[to] = vy[from];
+    age[to] = age[from];
+    life[to] = life[from];
+    size[to] = size[from];
+    kind[to] = kind[from];
+    color[to] = color[from];
+  };
+
+  return {
+    get count() {
+      return count;
+    },
+    // Cap live particles below capacity, e.g. for the low quality setting
+    setLimit(n: number) {
+      limit = Math.min(capacity, n);
+      count = Math.min(count, limit);
+    },
+    clear() {
+      count = 0;
+    },
+    // Fragments thrown outward that fall under gravity
+    debris(px: number, py: number, c: string, n: number, speed = 0.25) {
+      for (let i = 0; i < n; i++) {
+        const angle = Math.random() * Math.PI * 2;
+        const v = speed * (0.3 + Math.random() * 0.7);
+        emit(DEBRIS, px, py, Math.cos(angle) * v, Math.sin(angle) * v - speed * 0.5, 500 + Math.random() * 700, 1 + Math.random() * 2, c);
+      }
+    },
+    // A puff that drifts up, grows and fades
+    smoke(px: number, py: number, lifeMs = 900, s = 3) {
+      emit(SMOKE, px, py, (Math.random() - 0.5) * 0.01, -0.01 - Math.random() * 0.01, lifeMs, s, '#71717a');
+    },
+    fire(px: number, py: number) {
+      const c = Math.random() < 0.5 ? '#f97316' : '#fbbf24';
+      emit(FIRE, px + (Math.random() - 0.5) * 24, py, (Math.random() - 0.5) * 0.02, -0.04 - Math.random() * 0.04, 400 + Math.random() * 300, 2 + Math.random() * 2, c);
+    },
+    update(dtMs: number) {
+      let i = 0;
+      while (i < count) {
+        age[i] += dtMs;
+        if (age[i] >= life[i]) {
+          count--;
+          if (i !== count) copy(count, i);
+          continue;
+        }
+        if (kind[i] === DEBRIS) vy[i] += GRAVITY * dtMs;
+        x[i] += vx[i] * dtMs;
+        y[i] += vy[i] * dtMs;
+        i++;
+      }
+    },
+    // Expects a world transform on ctx
+    draw(ctx: CanvasRenderingContext2D) {
+      for (let i = 0; i < count; i++) {
+        const t = age[i] / life[i];
+        const k = kind[i];
+        ctx.globalAlpha = k === SMOKE ? 0.35 * (1 - t) : 1 - t;
+        ctx.fillStyle = colors[color[i]];
+        // Smoke swells as it ages; fire shrinks as it burns out
+        const s = k === SMOKE ? size[i] * (1 + t * 2) : k === FIRE ? size[i] * (1 - t * 0.6) : size[i];
+        ctx.fillRect(x[i] - s / 2, y[i] - s / 2, s, s);
+      }
+      ctx.globalAlpha = 1;
+    },
+  };
+};
+
+export type ParticleSystem = ReturnType<typeof createParticleSystem>;
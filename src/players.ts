@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Entity, GameEvent, GameState } from './types';
+
+// Results for the two-player modes. The engine tags shots and kills with the
+// player who made them; the UI folds each frame's events into these totals.
+// Defenders count shots fired and rockets destroyed; the versus attacker
+// counts rockets launched and strikes on cities and batteries.
+
+export interface PlayerResult {
+  score: number;
+  shots: number; // interceptors fired, or rockets launched by the attacker
+  hits: number; // rockets destroyed, or strikes landed by the attacker
+}
+
+export const createPlayerResults = (): PlayerResult[] => [
+  { score: 0, shots: 0, hits: 0 },
+  { score: 0, shots: 0, hits: 0 },
+];
+
+export const copyPlayerResults = (results: PlayerResult[]) => results.map(r => ({ ...r }));
+
+// Adds a frame's events to `results`; returns whether anything changed
+export const recordPlayerEvents = (results: PlayerResult[], state: GameState, events: GameEvent[]) => {
+  if (state.players === 'solo') return false;
+  const versus = state.players === 'versus';
+  let changed = false;
+  const add = (player: number, key: keyof PlayerResult, amount = 1) => {
+    results[player][key] += amount;
+    changed = true;
+  };
+  events.forEach(e => {
+    switch (e.type) {
+      case 'interceptorLaunched':
+        add(e.player, 'shots');
+        break;
+      case 'rocketDestroyed': {
+        // In co-op a rocket caught by a ground blast is nobody's kill; in
+        // versus all of the defense is the first player's
+        const player = versus ? 0 : e.player;
+        if (player === undefined) break;
+        add(player, 'hits');
+        add(player, 'score', e.points);
+        break;
+      }
+      case 'levelComplete':
+        if (versus) add(0, 'score', e.tally.total);
+        break;
+      case 'rocketSpawned':
+        if (versus) add(1, 'shots');
+        break;
+      case 'cityHit':
+        if (!versus) break;
+        add(1, 'hits');
+        add(1, 'score', state.config.VERSUS_CITY_POINTS);
+        break;
+      case 'batteryHit':
+        if (!versus) break;
+        add(1, 'hits');
+        add(1, 'score', state.config.VERSUS_BATTERY_POINTS);
+        break;
+    }
+  });
+  return changed;
+};
+
+// Versus: what the attacker can aim at, left to right
+const getAttackTargets = (state: GameState): Entity[] =>
+  [...state.cities, ...state.batteries].filter(t => !t.isDestroyed).sort((a, b) => a.x - b.x);
+
+// The attacker's pick while it stands; once it falls, whatever stands nearest the launch point
+export const resolveAttackTarget = (state: GameState, id: string | null, x: number): Entity | undefined => {
+  const targets = getAttackTargets(state);
+  return targets.find(t => t.id === id) ?? targets.reduce<Entity | undefined>(
+    (best, t) => (!best || Math.abs(t.x - x) < Math.abs(best.x - x) ? t : best),
+    undefined,
+  );
+};
+
+// Step the attacker's pick to the next standing target left or right, wrapping around
+export const cycleAttackTarget = (state: GameState, id: string | null, x: number, delta: -1 | 1) => {
+  const targets = getAttackTargets(state);
+  const current = resolveAttackTarget(state, id, x);
+  if (!current) return null;
+  const index = targets.indexOf(current);
+  return targets[(index + delta + targets.length) % targets.length].id;
+};
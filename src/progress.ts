@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_CONFIG } from './types';
+import { createVersionedStore } from './storage';
+
+export interface LevelRecord {
+  bestScore: number;
+  stars: number;
+}
+
+export interface CampaignProgress {
+  unlockedLevel: number; // furthest level the player may start from
+  completed: boolean;
+  levels: Record<number, LevelRecord>;
+}
+
+const defaultProgress = (): CampaignProgress => ({
+  unlockedLevel: 1,
+  completed: false,
+  levels: {},
+});
+
+const isProgress = (data: any): data is CampaignProgress =>
+  !!data && typeof data.unlockedLevel === 'number' && typeof data.completed === 'boolean' && typeof data.levels === 'object';
+
+const store = createVersionedStore<CampaignProgress>({
+  key: 'tina-nova:progress',
+  version: 1,
+  defaults: defaultProgress,
+  validate: isProgress,
+});
+
+export const loadProgress = store.load;
+export const saveProgress = store.save;
+
+// 3 stars for losing at most one city, 2 for keeping half, 1 for surviving
+export const getStars = (citiesLeft: number, totalCities: number) => {
+  if (citiesLeft >= totalCities - 1) return 3;
+  if (citiesLeft >= totalCities / 2) return 2;
+  return citiesLeft > 0 ? 1 : 0;
+};
+
+export const recordLevelResult = (progress: CampaignProgress, level: number, score: number, stars: number): CampaignProgress => {
+  const prev = progress.levels[level];
+  return {
+    unlockedLevel: Math.max(progress.unlockedLevel, Math.min(level + 1, GAME_CONFIG.TOTAL_LEVELS)),
+    completed: progress.completed || level >= GAME_CONFIG.TOTAL_LEVELS,
+    levels: {
+      ...progress.levels,
+      [level]: {
+        bestScore: Math.max(prev?.bestScore ?? 0, score),
+        stars: Math.max(prev?.stars ?? 0, stars),
+      },
+    },
+  };
+};
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameMode, GameState, GAME_CONFIG, GAME_VERSION } from './types';
+import { createVersionedStore } from './storage';
+import { Loadout } from './game/upgrades';
+import { DIFFICULTIES } from './game/difficulty';
+import { ROCKET_KINDS } from './game/rocketKinds';
+import { parseReplay, ReplayFile } from './game/replay';
+import { validateWaves } from './game/waves';
+import { PlayerResult } from './players';
+
+// One save slot holding the level in progress, so a reload or an evicted tab
+// can pick up where it left off. The engine state is plain data and goes in
+// whole, RNG included, so a resumed level plays out exactly as it would have.
+// Anything that doesn't check out is thrown away rather than half-loaded.
+
+export interface SavedRun {
+  gameVersion: string; // saves from another build are discarded
+  savedAt: string;
+  state: GameState;
+  level: number; // campaign level shown in the HUD
+  score: number;
+  levelStartScore: number;
+  levelScore: number;
+  runTicks: number; // ticks played in earlier levels of the run
+  runSeed: number;
+  mode: GameMode;
+  dailyScored: boolean;
+  loadout: Loadout;
+  citiesLost: number; // this level, for the after-action report
+  playerResults: PlayerResult[]; // two-player modes: each player's run so far
+  levelStartPlayerResults: PlayerResult[];
+  replay: ReplayFile; // the run recorded so far, so a resumed run still saves a full replay
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const hasNumbers = (data: any, keys: string[]) => !!data && typeof data === 'object' && keys.every(k => isNumber(data[k]));
+
+const isEntityList = (list: unknown, keys: string[], check: (item: any) => boolean = () => true) =>
+  Array.isArray(list) && list.every(item => hasNumbers(item, keys) && typeof item.id === 'string' && check(item));
+
+const isState = (s: any): s is GameState =>
+  hasNumbers(s, [
+    'width', 'height', 'stage', 'level', 'seed', 'rngState', 'nextId', 'tick', 'accumulator',
+    'nextSpawn', 'spawnClock', 'rocketsToSpawn', 'nextLaunch', 'reserveCities', 'bonusProgress',
+  ]) &&
+  s.outcome === 'playing' &&
+  ['campaign', 'endless', 'daily'].includes(s.mode) &&
+  Object.hasOwn(DIFFICULTIES, s.difficulty) &&
+  ['solo', 'coop', 'versus'].includes(s.players) &&
+  hasNumbers(s.config, Object.keys(GAME_CONFIG)) &&
+  hasNumbers(s.stats, ['shotsFired', 'hits', 'kills', 'rocketsThrough', 'bestChain']) &&
+  isEntityList(s.rockets, ['x', 'y', 'originX', 'originY', 'targetX', 'targetY', 'speed', 'progress', 'armor'], r => Object.hasOwn(ROCKET_KINDS, r.kind)) &&
+  isEntityList(s.interceptors, ['owner', 'x', 'y', 'vx', 'vy', 'targetX', 'targetY']) &&
+  isEntityList(s.explosions, ['x', 'y', 'radius', 'maxRadius', 'growthRate']) &&
+  isEntityList(s.batteries, ['x', 'y', 'ammo', 'maxAmmo', 'health', 'maxHealth']) &&
+  isEntityList(s.cities, ['x', 'y']) &&
+  s.cities.length === GAME_CONFIG.CITY_COUNT &&
+  // Versus levels have no script: the attacker launches every rocket
+  (s.players === 'versus' ? Array.isArray(s.waves) && s.waves.length === 0 : validateWaves(s.waves, 'state.waves').length === 0) &&
+  Array.isArray(s.spawnQueue) &&
+  s.spawnQueue.every((q: any) => hasNumbers(q, ['tick', 'wave']) && q.wave >= 0 && q.wave < s.waves.length) &&
+  s.nextSpawn <= s.spawnQueue.length &&
+  !!s.chainKills && typeof s.chainKills === 'object' &&
+  (s.director === null || hasNumbers(s.director, ['rate', 'speed', 'nextReview', 'raised', 'lowered']));
+
+const isPlayerResults = (list: unknown) =>
+  Array.isArray(list) && list.length === 2 && list.every(r => hasNumbers(r, ['score', 'shots', 'hits']));
+
+const isReplay = (data: unknown) => {
+  try {
+    parseReplay(JSON.stringify(data));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isSavedRun = (data: any): data is SavedRun =>
+  !!data &&
+  data.gameVersion === GAME_VERSION &&
+  hasNumbers(data, ['level', 'score', 'levelStartScore', 'levelScore', 'runTicks', 'runSeed', 'citiesLost']) &&
+  data.mode === data.state?.mode &&
+  typeof data.dailyScored === 'boolean' &&
+  !!data.loadout && typeof data.loadout.upgrades === 'object' &&
+  isPlayerResults(data.playerResults) &&
+  isPlayerResults(data.levelStartPlayerResults) &&
+  isState(data.state) &&
+  isReplay(data.replay);
+
+const store = createVersionedStore<SavedRun | null>({
+  key: 'tina-nova:save',
+  version: 1,
+  defaults: () => null,
+  validate: (data: any): data is SavedRun | null => data === null || isSavedRun(data),
+});
+
+// A slot that fails to load is cleared, so it isn't offered again
+export const loadSavedRun = (): SavedRun | null => {
+  const run = store.load();
+  if (!run) store.clear();
+  return run;
+};
+
+export const saveRun = (run: SavedRun) => store.save(run);
+export const clearSavedRun = store.clear;
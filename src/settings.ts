@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DifficultyId, FIRE_MODES, FireMode } from './types';
+import { createVersionedStore } from './storage';
+import { Locale, LOCALES } from './i18n';
+import { MOTION_PREFERENCES, MotionPreference, PaletteId, PALETTES } from './accessibility';
+import { DIFFICULTIES } from './game/difficulty';
+
+// Player preferences that survive reloads. Add new fields with a default here
+// and bump the store version with a migration that fills them in.
+export interface AudioSettings {
+  master: number; // 0-1
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+// `low` drops glow and per-frame twinkle for weaker devices
+export type Quality = 'high' | 'low';
+
+export interface AccessibilitySettings {
+  palette: PaletteId;
+  motion: MotionPreference;
+  highContrast: boolean;
+}
+
+export interface Settings {
+  fireMode: FireMode;
+  audio: AudioSettings;
+  locale: Locale | null; // null follows the browser language
+  accessibility: AccessibilitySettings;
+  quality: Quality;
+  briefings: boolean; // mission briefings and after-action reports
+  difficulty: DifficultyId;
+  adaptive: boolean; // let the director tune spawns to how the player is doing
+}
+
+const defaultAudio = (): AudioSettings => ({ master: 0.8, sfx: 1, music: 0.7, muted: false });
+
+const defaultAccessibility = (): AccessibilitySettings => ({ palette: 'default', motion: 'system', highContrast: false });
+
+export const defaultSettings = (): Settings => ({
+  fireMode: 'nearest',
+  audio: defaultAudio(),
+  locale: null,
+  accessibility: defaultAccessibility(),
+  quality: 'high',
+  briefings: true,
+  difficulty: 'normal',
+  adaptive: false,
+});
+
+const store = createVersionedStore<Settings>({
+  key: 'tina-nova:settings',
+  version: 7,
+  defaults: defaultSettings,
+  migrations: {
+    1: data => ({ ...data, audio: defaultAudio() }),
+    2: data => ({ ...data, locale: null }),
+    3: data => ({ ...data, accessibility: defaultAccessibility() }),
+    4: data => ({ ...data, quality: 'high' }),
+    5: data => ({ ...data, briefings: true }),
+    6: data => ({ ...data, difficulty: 'normal', adaptive: false }),
+  },
+  validate: (data: any): data is Settings =>
+    !!data &&
+    FIRE_MODES.includes(data.fireMode) &&
+    typeof data.audio?.master === 'number' &&
+    typeof data.audio.muted === 'boolean' &&
+    (data.locale === null || Object.hasOwn(LOCALES, data.locale)) &&
+    Object.hasOwn(PALETTES, data.accessibility?.palette) &&
+    MOTION_PREFERENCES.includes(data.accessibility.motion) &&
+    typeof data.accessibility.highContrast === 'boolean' &&
+    (data.quality === 'high' || data.quality === 'low') &&
+    typeof data.briefings === 'boolean' &&
+    Object.hasOwn(DIFFICULTIES, data.difficulty) &&
+    typeof data.adaptive === 'boolean',
+});
+
+export const loadSettings = store.load;
+export const saveSettings = store.save;
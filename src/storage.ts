@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Versioned localStorage wrapper. Each key stores `{ version, data }`; older
+// payloads are walked forward through `migrations[fromVersion]` one version at
+// a time, and anything unreadable falls back to the defaults.
+
+interface StoredEnvelope {
+  version: number;
+  data: unknown;
+}
+
+export interface VersionedStoreOptions<T> {
+  key: string;
+  version: number;
+  defaults: () => T;
+  migrations?: Record<number, (data: any) => any>;
+  validate?: (data: any) => data is T;
+}
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    // Access can throw when storage is disabled
+    return null;
+  }
+};
+
+export const createVersionedStore = <T,>({ key, version, defaults, migrations = {}, validate }: VersionedStoreOptions<T>) => {
+  const load = (): T => {
+    const storage = getStorage();
+    const raw = storage?.getItem(key);
+    if (!raw) return defaults();
+    try {
+      const envelope = JSON.parse(raw) as StoredEnvelope;
+      let { version: storedVersion, data } = envelope;
+      if (typeof storedVersion !== 'number' || storedVersion > version) return defaults();
+      while (storedVersion < version) {
+        const migrate = migrations[storedVersion];
+        if (!migrate) return defaults();
+        data = migrate(data);
+        storedVersion++;
+      }
+      if (validate && !validate(data)) return defaults();
+      return data as T;
+    } catch {
+      return defaults();
+    }
+  };
+
+  const save = (data: T) => {
+    try {
+      getStorage()?.setItem(key, JSON.stringify({ version, data } satisfies StoredEnvelope));
+    } catch {
+      // Quota exceeded or storage disabled; progress just won't persist
+    }
+  };
+
+  const clear = () => {
+    getStorage()?.removeItem(key);
+  };
+
+  return { load, save, clear };
+};
@@ -6,9 +6,11 @@
 export enum GameStatus {
   START = 'START',
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
   WON = 'WON',
   LOST = 'LOST',
   LEVEL_COMPLETE = 'LEVEL_COMPLETE',
+  ARMORY = 'ARMORY',
 }
 
 export interface Point {
@@ -20,15 +22,24 @@ export interface Entity extends Point {
   id: string;
 }
 
+export type RocketKind = 'standard' | 'dart' | 'armored' | 'mirv' | 'evader' | 'warhead';
+
 export interface Rocket extends Entity {
+  kind: RocketKind;
+  originX: number;
+  originY: number;
   targetX: number;
   targetY: number;
   speed: number;
   progress: number; // 0 to 1
   isDestroyed: boolean;
+  armor: number; // blasts it can still absorb
+  lastHitBy?: string; // id of the blast that last damaged it, so one blast only counts once
+  splitAtY?: number; // MIRV only
 }
 
 export interface Interceptor extends Entity {
+  owner: number; // index of the player who fired it
   startX: number;
   startY: number;
   targetX: number;
@@ -41,6 +52,7 @@ export interface Interceptor extends Entity {
 }
 
 export interface Explosion extends Entity {
+  owner?: number; // player whose interceptor set it off; unset for ground impacts
   radius: number;
   maxRadius: number;
   growthRate: number;
@@ -60,8 +72,171 @@ export interface City extends Entity {
   isDestroyed: boolean;
 }
 
+export type GameOutcome = 'playing' | 'levelComplete' | 'lost';
+
+export type UpgradeId = 'ammo' | 'blastRadius' | 'interceptorSpeed' | 'blastDuration';
+
+// Purchased level of each armory upgrade; missing means not bought
+export type UpgradeLevels = Partial<Record<UpgradeId, number>>;
+
+// Damage carried from one level into the next, indexed like the level's batteries/cities
+export interface WorldState {
+  batteryHealth: number[];
+  citiesAlive: boolean[];
+  reserveCities?: number; // bonus cities banked for when a slot is lost
+  bonusProgress?: number; // points earned toward the next bonus city
+}
+
+// random: any standing city or battery; cities / batteries: only that kind;
+// { city }: one city by index, falling back to any city once it's gone
+export type WaveTarget = 'random' | 'cities' | 'batteries' | { city: number };
+
+// One group of rockets in a level's wave script (see src/data/waves.json)
+export interface WaveEntry {
+  at: number; // seconds into the level of the first spawn
+  count: number;
+  interval?: number; // seconds between spawns; omitted or 0 launches the whole group at once
+  jitter?: number; // 0-1, how far into its interval each spawn may randomly slip
+  origin?: [number, number]; // span of the world width rockets enter from, as fractions
+  target?: WaveTarget;
+  speed?: [number, number]; // px per tick before the kind's multiplier
+  kind?: RocketKind; // omit to draw from the level's usual mix
+}
+
+// campaign: 100 scripted levels; endless: one continuous survival run;
+// daily: a survival run seeded from the date, the same for everyone
+export type GameMode = 'campaign' | 'endless' | 'daily';
+
+// solo: one defender; coop: two defenders on one screen, each with their own
+// batteries; versus: a defender against a second player who aims the rockets
+export type PlayerMode = 'solo' | 'coop' | 'versus';
+
+// Presets scaling rocket count, speed, ammo and blast radius (src/game/difficulty.ts)
+export type DifficultyId = 'easy' | 'normal' | 'hard' | 'nightmare';
+
+// The adaptive director's live adjustments (src/game/director.ts)
+export interface DirectorState {
+  rate: number; // spawn-rate multiplier: the spawn schedule runs this fast
+  speed: number; // multiplier on the speed of newly spawned rockets
+  nextReview: number; // tick of the next performance check
+  // Totals at the last check, so each check judges only the latest window
+  seen: { shotsFired: number; hits: number; rocketsThrough: number; citiesStanding: number };
+  raised: number; // checks that made the level harder
+  lowered: number; // checks that eased off
+}
+
+// Everything needed to rebuild a level exactly; stored in replays
+export interface LevelSetup {
+  level: number;
+  width: number;
+  height: number;
+  seed: number;
+  upgrades?: UpgradeLevels;
+  world?: WorldState;
+  waves?: WaveEntry[]; // defaults to the level's script
+  mode?: GameMode; // defaults to campaign; survival modes generate their own waves
+  difficulty?: DifficultyId; // defaults to normal
+  adaptive?: boolean; // run the adaptive director
+  players?: PlayerMode; // defaults to solo
+}
+
+// Per-level shooting record, shown in the end-of-level summary
+export interface LevelStats {
+  shotsFired: number;
+  hits: number; // interceptors that detonated on a rocket
+  kills: number;
+  rocketsThrough: number; // rockets that reached the ground
+  bestChain: number; // most kills credited to a single blast
+}
+
+// End-of-level bonus for what the player kept standing
+export interface LevelTally {
+  cities: number;
+  cityBonus: number;
+  ammo: number;
+  ammoBonus: number;
+  total: number;
+}
+
+export interface ScheduledSpawn {
+  tick: number;
+  wave: number; // index into GameState.waves
+}
+
+export interface GameState {
+  width: number;
+  height: number;
+  mode: GameMode;
+  stage: number; // survival minute, counting from 1; always 1 in the campaign
+  level: number; // campaign level, or the kind mix a survival minute uses
+  seed: number;
+  difficulty: DifficultyId;
+  players: PlayerMode;
+  config: GameConfig; // GAME_CONFIG with the difficulty and this run's upgrades applied
+  rngState: number;
+  nextId: number;
+  tick: number; // fixed simulation steps since level start
+  accumulator: number; // leftover ms not yet simulated
+  rockets: Rocket[];
+  interceptors: Interceptor[];
+  explosions: Explosion[];
+  batteries: Battery[];
+  cities: City[];
+  waves: WaveEntry[];
+  spawnQueue: ScheduledSpawn[]; // every spawn of the level, in tick order
+  nextSpawn: number; // index into spawnQueue
+  spawnClock: number; // ticks of spawn schedule elapsed; runs at the director's rate
+  rocketsToSpawn: number; // versus: what is left of the attacker's budget
+  nextLaunch: number; // versus: first tick the attacker may launch again
+  chainKills: Record<string, number>; // kills so far per live blast id
+  reserveCities: number;
+  bonusProgress: number;
+  stats: LevelStats;
+  director: DirectorState | null; // null when the adaptive director is off
+  outcome: GameOutcome;
+}
+
+// nearest: closest battery to the target; manual: only `batteryId`; mostAmmo: fullest battery
+export type FireMode = 'nearest' | 'manual' | 'mostAmmo';
+export const FIRE_MODES: FireMode[] = ['nearest', 'manual', 'mostAmmo'];
+
+export interface FireCommand extends Point {
+  mode?: FireMode;
+  batteryId?: string;
+  player?: number; // coop: only this player's batteries may fire
+}
+
+// Versus: the attacker launches one rocket from `x` on the top edge
+export interface LaunchCommand {
+  x: number;
+  targetId: string; // a standing city or battery
+}
+
+export interface GameInputs {
+  fire?: FireCommand[];
+  launch?: LaunchCommand[];
+}
+
+export type GameEvent =
+  | { type: 'interceptorLaunched'; batteryId: string; x: number; y: number; player: number }
+  | { type: 'rocketSpawned'; rocketId: string; kind: RocketKind }
+  | { type: 'rocketSplit'; rocketId: string; x: number; y: number }
+  | { type: 'rocketDamaged'; rocketId: string }
+  | { type: 'rocketDestroyed'; rocketId: string; kind: RocketKind; x: number; y: number; points: number; multiplier: number; player?: number }
+  | { type: 'explosion'; x: number; y: number }
+  | { type: 'cityHit'; cityId: string }
+  | { type: 'resupply'; stage: number }
+  | { type: 'bonusCity'; reserveCities: number }
+  | { type: 'cityRebuilt'; cityId: string; reserveCities: number }
+  | { type: 'batteryHit'; batteryId: string; health: number; isDestroyed: boolean }
+  | { type: 'levelComplete'; level: number; tally: LevelTally }
+  | { type: 'gameOver'; level: number };
+
 export const GAME_CONFIG = {
   TOTAL_LEVELS: 100,
+  CITY_COUNT: 6,
+  WORLD_WIDTH: 1280, // Logical world size; the canvas scales it to fit the screen
+  WORLD_HEIGHT: 720,
   LEVEL_DURATION_SEC: 60,
   LEVEL_1_ROCKETS: 50,
   LEVEL_100_ROCKETS: 200,
@@ -73,6 +248,38 @@ export const GAME_CONFIG = {
   BATTERY_MAX_HEALTH: 3,
   EXPLOSION_MAX_RADIUS: 40, // Reduced by half from 80
   EXPLOSION_GROWTH_RATE: 1.5,
+  EXPLOSION_SHRINK_RATE: 0.5, // Fraction of the growth rate
   COLLISION_EXPLOSION_MULTIPLIER: 3,
   POINTS_PER_ROCKET: 20,
+  CHAIN_MAX_MULTIPLIER: 5, // nth kill from one blast scores n times, up to this
+  CITY_BONUS: 100, // per surviving city at level end
+  AMMO_BONUS: 5, // per unused interceptor at level end
+  BONUS_CITY_POINTS: 10000, // a reserve city is banked every time this many points are earned
+  BATTERY_AUTO_REPAIR: 1, // health each battery regains between levels
+  SURVIVAL_RAMP: 15, // survival: extra rockets per minute, added every minute
+  SURVIVAL_LEVEL_STEP: 5, // survival: campaign levels of rocket variety per minute
+  VERSUS_BUDGET_SHARE: 0.4, // versus: attacker's rockets as a share of the level's usual count
+  VERSUS_LAUNCH_COOLDOWN: 12, // versus: ticks between the attacker's launches
+  VERSUS_CITY_POINTS: 100, // versus: attacker's points per city destroyed
+  VERSUS_BATTERY_POINTS: 50, // versus: attacker's points per battery hit
+  TICKS_PER_SECOND: 60, // Fixed simulation rate; speeds above are per tick
+  MAX_FRAME_MS: 250, // Longest frame the engine will catch up on
 };
+
+export type GameConfig = typeof GAME_CONFIG;
+
+export const GAME_VERSION = '1.0.0';
+
+// Leaderboard API shapes, shared by the game client and the local server
+export interface RunSubmission {
+  name: string;
+  score: number;
+  levelReached: number;
+  durationSec: number;
+  gameVersion: string;
+}
+
+export interface LeaderboardEntry extends RunSubmission {
+  id: number;
+  createdAt: string;
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Point } from './types';
+
+// The world has a fixed logical size. The canvas fills the window, the world
+// is scaled uniformly to fit inside it (letterboxed on the long axis), and the
+// backing store is sized at devicePixelRatio so lines stay sharp on HiDPI.
+
+export interface Viewport {
+  cssWidth: number;
+  cssHeight: number;
+  dpr: number;
+  scale: number; // CSS pixels per world unit
+  offsetX: number; // CSS pixel position of the world origin
+  offsetY: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+export const fitViewport = (world: Size, cssWidth: number, cssHeight: number, dpr: number): Viewport => {
+  const scale = Math.min(cssWidth / world.width, cssHeight / world.height) || 1;
+  return {
+    cssWidth,
+    cssHeight,
+    dpr,
+    scale,
+    offsetX: (cssWidth - world.width * scale) / 2,
+    offsetY: (cssHeight - world.height * scale) / 2,
+  };
+};
+
+export const measureViewport = (canvas: HTMLCanvasElement, world: Size): Viewport =>
+  fitViewport(world, canvas.clientWidth, canvas.clientHeight, window.devicePixelRatio || 1);
+
+// Match the backing store to the element's CSS box. Only touches the canvas
+// when the size really changed, since assigning width clears it.
+export const applyViewport = (canvas: HTMLCanvasElement, vp: Viewport) => {
+  const width = Math.max(1, Math.round(vp.cssWidth * vp.dpr));
+  const height = Math.max(1, Math.round(vp.cssHeight * vp.dpr));
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+};
+
+// Reset to device pixels, e.g. to paint the letterbox bars
+export const setScreenTransform = (ctx: CanvasRenderingContext2D, vp: Viewport) => {
+  ctx.setTransform(vp.dpr, 0, 0, vp.dpr, 0, 0);
+};
+
+// Everything drawn after this is in world units
+export const setWorldTransform = (ctx: CanvasRenderingContext2D, vp: Viewport) => {
+  const s = vp.scale * vp.dpr;
+  ctx.setTransform(s, 0, 0, s, vp.offsetX * vp.dpr, vp.offsetY * vp.dpr);
+};
+
+// Map a client position to world units. Taps on the letterbox bars snap to
+// the nearest edge of the world rather than landing off-screen.
+export const clientToWorld = (vp: Viewport, rect: { left: number; top: number }, world: Size, clientX: number, clientY: number): Point => ({
+  x: Math.min(Math.max((clientX - rect.left - vp.offsetX) / vp.scale, 0), world.width),
+  y: Math.min(Math.max((clientY - rect.top - vp.offsetY) / vp.scale, 0), world.height),
+});
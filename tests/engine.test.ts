@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GAME_CONFIG, GameEvent, LevelSetup, Rocket, RocketKind } from '../src/types';
+import { carryOverWorld, createLevelState, FIXED_STEP_MS, step, tick } from '../src/game/engine';
+import { MIRV_WARHEADS, ROCKET_KINDS } from '../src/game/rocketKinds';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+const setup = (extra: Partial<LevelSetup> = {}): LevelSetup => ({ level: 1, width: WIDTH, height: HEIGHT, seed: 1234, ...extra });
+
+const run = (state: ReturnType<typeof createLevelState>, ticks: number) => {
+  const events: GameEvent[] = [];
+  for (let n = 0; n < ticks && state.outcome === 'playing'; n++) tick(state, events);
+  return events;
+};
+
+const rocketAt = (x: number, y: number, targetX: number, targetY: number, kind: RocketKind = 'standard'): Rocket => ({
+  id: 'test-rocket', kind, x, y, originX: x, originY: y, targetX, targetY, speed: 1, progress: 0, isDestroyed: false, armor: ROCKET_KINDS[kind].armor,
+});
+
+const blastAt = (x: number, y: number, id = 'test-blast') => ({
+  id, x, y, radius: 30, maxRadius: 40, growthRate: 1, isFinished: false, phase: 'growing' as const,
+});
+
+test('the engine runs the same number of ticks at any frame rate', () => {
+  // Just over a second, in 10 ms and 5 ms frames
+  const slow = createLevelState(setup());
+  const fast = createLevelState(setup());
+  for (let n = 0; n < 101; n++) step(slow, 10);
+  for (let n = 0; n < 202; n++) step(fast, 5);
+  assert.equal(slow.tick, GAME_CONFIG.TICKS_PER_SECOND);
+  assert.equal(fast.tick, GAME_CONFIG.TICKS_PER_SECOND);
+
+  // A long stall only catches up on MAX_FRAME_MS
+  const stalled = createLevelState(setup());
+  const capped = createLevelState(setup());
+  step(stalled, 10_000);
+  step(capped, GAME_CONFIG.MAX_FRAME_MS);
+  assert.ok(stalled.tick > 0);
+  assert.equal(stalled.tick, capped.tick);
+});
+
+test('the same seed and inputs play out identically', () => {
+  const play = () => {
+    const state = createLevelState(setup({ level: 30 }));
+    for (let n = 0; n < 600; n++) {
+      step(state, FIXED_STEP_MS, n % 20 === 0 ? { fire: [{ x: 200 + n, y: 300 }] } : {});
+    }
+    return JSON.stringify(state);
+  };
+  assert.equal(play(), play());
+});
+
+test('scheduled rockets spawn on their tick, from the top edge at a standing target', () => {
+  const state = createLevelState(setup({ waves: [{ at: 0, count: 3, kind: 'standard' }, { at: 1, count: 2, kind: 'standard' }] }));
+  assert.equal(state.rocketsToSpawn, 5);
+
+  const first = run(state, 1);
+  assert.equal(first.filter(e => e.type === 'rocketSpawned').length, 3);
+  assert.equal(state.rockets.length, 3);
+  assert.equal(state.rocketsToSpawn, 2);
+
+  const later = run(state, GAME_CONFIG.TICKS_PER_SECOND);
+  assert.equal(later.filter(e => e.type === 'rocketSpawned').length, 2);
+  assert.equal(state.rocketsToSpawn, 0);
+
+  const targets = [...state.cities, ...state.batteries];
+  state.rockets.forEach(r => {
+    assert.ok(r.originX >= 0 && r.originX <= WIDTH && r.originY === 0);
+    assert.ok(targets.some(t => t.x === r.targetX && t.y === r.targetY));
+  });
+});
+
+test('a wave can aim every rocket at one city', () => {
+  const state = createLevelState(setup({ waves: [{ at: 0, count: 4, target: { city: 4 } }] }));
+  run(state, 1);
+  assert.equal(state.rockets.length, 4);
+  assert.ok(state.rockets.every(r => r.targetX === state.cities[4].x));
+});
+
+test('a blast destroys a rocket inside it and scores it', () => {
+  const state = createLevelState(setup());
+  state.rocketsToSpawn = 0;
+  state.rockets.push(rocketAt(400, 200, 400, 580));
+  state.explosions.push(blastAt(400, 200));
+  const events = run(state, 1);
+  const destroyed = events.find(e => e.type === 'rocketDestroyed');
+  assert.ok(destroyed && destroyed.type === 'rocketDestroyed');
+  assert.equal(destroyed.rocketId, 'test-rocket');
+  assert.equal(destroyed.points, GAME_CONFIG.POINTS_PER_ROCKET);
+  assert.equal(state.rockets.length, 0);
+});
+
+test('armor soaks the first blast, and a blast only counts once', () => {
+  const state = createLevelState(setup());
+  state.rocketsToSpawn = 0;
+  state.rockets.push(rocketAt(400, 200, 400, 580, 'armored'));
+  state.explosions.push(blastAt(400, 200));
+  const first = run(state, 5);
+  assert.ok(first.some(e => e.type === 'rocketDamaged'));
+  assert.ok(!first.some(e => e.type === 'rocketDestroyed'));
+  assert.equal(state.rockets[0].armor, 0);
+
+  state.explosions.push(blastAt(state.rockets[0].x, state.rockets[0].y, 'second-blast'));
+  const second = run(state, 1);
+  assert.ok(second.some(e => e.type === 'rocketDestroyed' && e.points === ROCKET_KINDS.armored.points));
+});
+
+test('a MIRV splits into warheads at its split altitude', () => {
+  const state = createLevelState(setup());
+  state.rocketsToSpawn = 0;
+  state.rockets.push({ ...rocketAt(400, 200, 400, 580, 'mirv'), splitAtY: 201 });
+  const events = run(state, 3);
+  assert.ok(events.some(e => e.type === 'rocketSplit' && e.rocketId === 'test-rocket'));
+  assert.equal(state.rockets.length, MIRV_WARHEADS);
+  assert.ok(state.rockets.every(r => r.kind === 'warhead'));
+});
+
+test('an interceptor fired at a rocket brings it down', () => {
+  const state = createLevelState(setup());
+  state.rocketsToSpawn = 0;
+  state.rockets.push(rocketAt(400, 200, 400, 580));
+  const events = step(state, FIXED_STEP_MS, { fire: [{ x: 400, y: 240 }] });
+  events.push(...run(state, 200));
+  const launched = events.find(e => e.type === 'interceptorLaunched');
+  assert.ok(launched && launched.type === 'interceptorLaunched');
+  assert.equal(launched.batteryId, 'b-mid');
+  assert.ok(events.some(e => e.type === 'rocketDestroyed'));
+  assert.equal(state.batteries[1].ammo, state.batteries[1].maxAmmo - 1);
+  assert.equal(state.stats.shotsFired, 1);
+  assert.equal(state.stats.hits, 1);
+});
+
+test('each further kill by the same blast raises its chain multiplier', () => {
+  const state = createLevelState(setup());
+  state.rocketsToSpawn = 0;
+  [390, 400, 410].forEach((x, n) => state.rockets.push({ ...rocketAt(x, 200, x, 580), id: `r-${n}` }));
+  state.explosions.push(blastAt(400, 200));
+  const multipliers = run(state, 1).flatMap(e => (e.type === 'rocketDestroyed' ? [e.multiplier] : []));
+  assert.deepEqual(multipliers, [1, 2, 3]);
+  assert.equal(state.stats.kills, 3);
+  assert.equal(state.stats.bestChain, 3);
+});
+
+test('a rocket that gets through destroys its city', () => {
+  const state = createLevelState(setup());
+  state.rocketsToSpawn = 0;
+  const city = state.cities[2];
+  state.rockets.push(rocketAt(city.x, HEIGHT - 30, city.x, city.y));
+  const events = run(state, 60);
+  assert.ok(events.some(e => e.type === 'cityHit' && e.cityId === city.id));
+  assert.ok(city.isDestroyed);
+  assert.equal(state.stats.rocketsThrough, 1);
+});
+
+test('the level is complete once every rocket is spawned and gone, with a bonus tally', () => {
+  const state = createLevelState(setup());
+  state.rocketsToSpawn = 0;
+  state.cities[0].isDestroyed = true;
+  const events = run(state, 1);
+  const complete = events.find(e => e.type === 'levelComplete');
+  assert.ok(complete && complete.type === 'levelComplete');
+  assert.equal(complete.level, 1);
+  assert.equal(state.outcome, 'levelComplete');
+  const ammo = state.batteries.reduce((sum, b) => sum + b.ammo, 0);
+  assert.equal(complete.tally.total, 5 * state.config.CITY_BONUS + ammo * state.config.AMMO_BONUS);
+  assert.deepEqual(step(state, 1000), []);
+});
+
+test('losing the last city ends the game unless a reserve city is banked', () => {
+  const state = createLevelState(setup());
+  state.reserveCities = 1;
+  state.cities.forEach(c => {
+    c.isDestroyed = true;
+  });
+  const rebuilt = run(state, 1);
+  assert.ok(rebuilt.some(e => e.type === 'cityRebuilt'));
+  assert.equal(state.reserveCities, 0);
+  assert.equal(state.outcome, 'playing');
+
+  state.cities.forEach(c => {
+    c.isDestroyed = true;
+  });
+  const over = run(state, 1);
+  assert.ok(over.some(e => e.type === 'gameOver'));
+  assert.equal(state.outcome, 'lost');
+});
+
+test('a reserve city is banked every BONUS_CITY_POINTS and refills lost slots next level', () => {
+  const state = createLevelState(setup());
+  state.rocketsToSpawn = 0;
+  state.bonusProgress = state.config.BONUS_CITY_POINTS - 1;
+  state.cities[0].isDestroyed = true;
+  state.rockets.push(rocketAt(400, 200, 400, 580));
+  state.explosions.push(blastAt(400, 200));
+  const events = run(state, 1);
+  assert.ok(events.some(e => e.type === 'bonusCity' && e.reserveCities === 1));
+  const world = carryOverWorld(state);
+  assert.deepEqual(world.citiesAlive, [true, true, true, true, true, true]);
+  assert.equal(world.reserveCities, 0);
+});
+
+test('survival stages follow the spawn clock when the director slows spawns', () => {
+  const stageTicks = GAME_CONFIG.LEVEL_DURATION_SEC * GAME_CONFIG.TICKS_PER_SECOND;
+  const state = createLevelState(setup({ mode: 'endless', adaptive: true }));
+  // Nobody is defending, so keep a city in reserve for every one that falls
+  state.reserveCities = Infinity;
+  for (let n = 0; n < 4 * stageTicks + 10; n++) {
+    state.director!.rate = 0.5;
+    tick(state);
+  }
+  // Half speed: two stages' worth of spawn clock, so the third stage has just begun
+  assert.equal(state.stage, 3);
+  // Nothing from an earlier stage is left waiting
+  state.spawnQueue.slice(state.nextSpawn).forEach(q => assert.ok(q.tick >= (state.stage - 1) * stageTicks));
+});
+
+test('co-op players only fire from their own batteries', () => {
+  const state = createLevelState(setup({ players: 'coop', waves: [{ at: 30, count: 10 }] }));
+  const right = state.batteries.find(b => b.id === 'b-right')!;
+  step(state, FIXED_STEP_MS, { fire: [{ x: right.x, y: 100, mode: 'manual', batteryId: 'b-right', player: 0 }] });
+  assert.equal(state.interceptors.length, 0);
+  const events = step(state, FIXED_STEP_MS, { fire: [{ x: 100, y: 100, player: 1 }] });
+  assert.deepEqual(events.filter(e => e.type === 'interceptorLaunched').map(e => e.type === 'interceptorLaunched' && e.batteryId), ['b-right']);
+});
+
+test('the versus attacker spends a budget with a cooldown between launches', () => {
+  const state = createLevelState(setup({ players: 'versus', level: 5 }));
+  const budget = state.rocketsToSpawn;
+  assert.ok(budget > 0);
+  assert.equal(state.spawnQueue.length, 0);
+  const launch = [{ x: 300, targetId: 'city-0' }];
+  step(state, FIXED_STEP_MS, { launch });
+  step(state, FIXED_STEP_MS, { launch });
+  assert.equal(state.rocketsToSpawn, budget - 1);
+  for (let n = 0; n < state.config.VERSUS_LAUNCH_COOLDOWN; n++) step(state, FIXED_STEP_MS);
+  step(state, FIXED_STEP_MS, { launch });
+  assert.equal(state.rocketsToSpawn, budget - 2);
+  assert.ok(state.rockets.every(r => r.targetX === state.cities[0].x));
+});
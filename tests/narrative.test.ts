@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BilingualText,
+  BriefingContext,
+  createNarrator,
+  MAX_CACHED,
+  NarrativeProvider,
+  NarrativeUnavailableError,
+  templateProvider,
+} from '../src/narrative';
+
+// The cache lives in localStorage; an in-memory stand-in is enough here
+const storage = new Map<string, string>();
+(globalThis as any).window = {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  },
+};
+
+beforeEach(() => {
+  storage.clear();
+  // Fallbacks log a warning; keep the test output quiet
+  mock.method(console, 'warn', () => {});
+});
+
+afterEach(() => mock.restoreAll());
+
+const briefing = (level: number): BriefingContext => ({
+  level, mode: 'campaign', rockets: 12, newKinds: ['dart'], citiesStanding: 6, reserveCities: 1,
+});
+
+const cachedKeys = () => Object.keys(JSON.parse(storage.get('tina-nova:narrative') ?? '{"data":{}}').data);
+
+// A provider that answers each briefing with its level, after `reply` decides how
+const stubProvider = (reply: (text: BilingualText) => Promise<BilingualText>) => {
+  const asked: number[] = [];
+  const provider: NarrativeProvider = {
+    name: 'stub',
+    briefing: async ctx => {
+      asked.push(ctx.level);
+      return reply({ en: `level ${ctx.level}`, cn: `第 ${ctx.level} 关` });
+    },
+    report: () => Promise.reject(new NarrativeUnavailableError('not stubbed')),
+  };
+  return { provider, asked };
+};
+
+test('templates read the same for the same context', async () => {
+  const first = await templateProvider.briefing(briefing(4));
+  assert.deepEqual(await templateProvider.briefing(briefing(4)), first);
+  assert.match(first.en, /12 rockets/);
+  assert.match(first.en, /darts/);
+});
+
+test('a provider that fails falls back to the templates without caching them', async () => {
+  const { provider, asked } = stubProvider(() => Promise.reject(new NarrativeUnavailableError('offline')));
+  const narrator = createNarrator(provider);
+  assert.deepEqual(await narrator.briefing(briefing(3)), await templateProvider.briefing(briefing(3)));
+  assert.deepEqual(cachedKeys(), []);
+  // Not cached, so the provider gets another go
+  await narrator.briefing(briefing(3));
+  assert.deepEqual(asked, [3, 3]);
+});
+
+test('a provider that hangs is cut off by the timeout', async () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  const { provider } = stubProvider(() => new Promise(() => {}));
+  const text = createNarrator(provider).briefing(briefing(5));
+  mock.timers.tick(6000);
+  assert.deepEqual(await text, await templateProvider.briefing(briefing(5)));
+  assert.deepEqual(cachedKeys(), []);
+});
+
+test('provider text is cached, oldest first out once MAX_CACHED is reached', async () => {
+  const { provider, asked } = stubProvider(async text => text);
+  const narrator = createNarrator(provider);
+  for (let level = 1; level <= MAX_CACHED + 1; level++) await narrator.briefing(briefing(level));
+  const keys = cachedKeys();
+  assert.equal(keys.length, MAX_CACHED);
+  assert.ok(!keys.some(key => key.includes('|1|')));
+
+  // A new narrator picks the cache back up from storage
+  const reloaded = createNarrator(provider);
+  assert.deepEqual(await reloaded.briefing(briefing(MAX_CACHED)), { en: `level ${MAX_CACHED}`, cn: `第 ${MAX_CACHED} 关` });
+  await reloaded.briefing(briefing(1));
+  assert.equal(asked.length, MAX_CACHED + 2);
+});
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FireCommand, GAME_CONFIG, GameEvent, GameState, LevelSetup } from '../src/types';
+import { createLevelState, FIXED_STEP_MS, step } from '../src/game/engine';
+import { createReplayRecorder, parseReplay, REPLAY_VERSION, ReplayError, simulateReplay } from '../src/game/replay';
+
+const MAX_TICKS = 10 * GAME_CONFIG.LEVEL_DURATION_SEC * GAME_CONFIG.TICKS_PER_SECOND;
+
+// Shoot just below the lowest rocket every quarter second
+const aim = (state: GameState): FireCommand[] => {
+  if (state.tick % 15 !== 0 || state.rockets.length === 0) return [];
+  const lowest = state.rockets.reduce((a, b) => (b.y > a.y ? b : a));
+  return [{ x: lowest.x, y: lowest.y + 20 }];
+};
+
+// Play one level, recording every command, and return the score
+const playRecorded = (recorder: ReturnType<typeof createReplayRecorder>, setup: LevelSetup, attack = false) => {
+  recorder.beginLevel(setup);
+  const state = createLevelState(setup);
+  let score = 0;
+  while (state.outcome === 'playing' && state.tick < MAX_TICKS) {
+    const fire = aim(state);
+    const launch = attack && state.tick % 30 === 0 ? [{ x: (state.tick * 7) % state.width, targetId: 'city-1' }] : [];
+    fire.forEach(cmd => recorder.recordFire(state.tick, cmd));
+    launch.forEach(cmd => recorder.recordLaunch(state.tick, cmd));
+    step(state, FIXED_STEP_MS, { fire, launch }).forEach((e: GameEvent) => {
+      if (e.type === 'rocketDestroyed') score += e.points;
+      else if (e.type === 'levelComplete') score += e.tally.total;
+    });
+  }
+  return { score, outcome: state.outcome };
+};
+
+const level = (n: number, extra: Partial<LevelSetup> = {}): LevelSetup => ({
+  level: n,
+  width: 800,
+  height: 600,
+  seed: 1000 + n,
+  ...extra,
+});
+
+test('a recorded run survives a JSON round-trip and replays to the same score', () => {
+  const recorder = createReplayRecorder(7);
+  const first = playRecorded(recorder, level(3));
+  recorder.recordSpend(100);
+  const second = playRecorded(recorder, level(4, { difficulty: 'hard', adaptive: true }));
+  const file = parseReplay(JSON.stringify(recorder.finish(first.score - 100 + second.score)));
+  assert.ok(file.levels[0].inputs.length > 0);
+  const result = simulateReplay(file);
+  assert.deepEqual(result.outcomes, [first.outcome, second.outcome]);
+  assert.ok(result.matches, `replayed ${result.score}, recorded ${file.finalScore}`);
+});
+
+test('versus launches are recorded and replayed', () => {
+  const recorder = createReplayRecorder(8);
+  const { score } = playRecorded(recorder, level(6, { players: 'versus' }), true);
+  const file = recorder.finish(score);
+  assert.ok(file.levels[0].launches?.length);
+  assert.ok(simulateReplay(parseReplay(JSON.stringify(file))).matches);
+});
+
+test('a replay with a different score does not match', () => {
+  const recorder = createReplayRecorder(8);
+  const { score } = playRecorded(recorder, level(2));
+  assert.equal(simulateReplay(recorder.finish(score + 1)).matches, false);
+});
+
+test('a restarted level is dropped from the recording', () => {
+  const recorder = createReplayRecorder(9);
+  recorder.recordSpend(50);
+  recorder.beginLevel(level(1));
+  recorder.recordFire(5, { x: 1, y: 2 });
+  recorder.discardLevel();
+  recorder.beginLevel(level(1));
+  const { levels } = recorder.finish(0);
+  assert.equal(levels.length, 1);
+  assert.deepEqual(levels[0].inputs, []);
+  // What was spent before the restart still counts against the retry
+  assert.equal(levels[0].spent, 50);
+});
+
+test('malformed replays are rejected', () => {
+  const valid = { version: REPLAY_VERSION, seed: 1, createdAt: '', finalScore: 0, levels: [{ setup: level(1), inputs: [] }] };
+  assert.doesNotThrow(() => parseReplay(JSON.stringify(valid)));
+  const world = { batteryHealth: [3, 1, 0], citiesAlive: [true, false, true, true, true, true], reserveCities: 1, bonusProgress: 40 };
+  const carried = { ...valid, levels: [{ setup: { ...level(2), upgrades: { ammo: 2 }, world }, inputs: [] }] };
+  assert.doesNotThrow(() => parseReplay(JSON.stringify(carried)));
+  const broken: [string, unknown][] = [
+    ['not json', '{'],
+    ['wrong version', { ...valid, version: REPLAY_VERSION + 1 }],
+    ['no levels', { ...valid, levels: [] }],
+    ['no seed', { ...valid, levels: [{ setup: { ...level(1), seed: 'x' }, inputs: [] }] }],
+    ['bad input', { ...valid, levels: [{ setup: level(1), inputs: [{ tick: 'soon', x: 1, y: 1 }] }] }],
+    ['unknown mode', { ...valid, levels: [{ setup: { ...level(1), mode: 'arcade' }, inputs: [] }] }],
+    ['unknown difficulty', { ...valid, levels: [{ setup: { ...level(1), difficulty: 'brutal' }, inputs: [] }] }],
+    ['prototype difficulty', { ...valid, levels: [{ setup: { ...level(1), difficulty: 'toString' }, inputs: [] }] }],
+    ['unknown player mode', { ...valid, levels: [{ setup: { ...level(1), players: 'trio' }, inputs: [] }] }],
+    ['unknown upgrade', { ...valid, levels: [{ setup: { ...level(1), upgrades: { toString: 1 } }, inputs: [] }] }],
+    ['upgrade past its cap', { ...valid, levels: [{ setup: { ...level(1), upgrades: { ammo: 99 } }, inputs: [] }] }],
+    ['world with missing cities', { ...valid, levels: [{ setup: { ...level(1), world: { ...world, citiesAlive: [true] } }, inputs: [] }] }],
+    ['world with bad health', { ...valid, levels: [{ setup: { ...level(1), world: { ...world, batteryHealth: 'full' } }, inputs: [] }] }],
+    ['bad launch', { ...valid, levels: [{ setup: level(1), inputs: [], launches: [{ tick: 1, x: 1 }] }] }],
+    ['bad wave script', { ...valid, levels: [{ setup: { ...level(1), waves: [{ at: 0 }] }, inputs: [] }] }],
+  ];
+  broken.forEach(([name, data]) => {
+    assert.throws(() => parseReplay(typeof data === 'string' ? data : JSON.stringify(data)), ReplayError, name);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GAME_CONFIG, GAME_VERSION, PlayerMode } from '../src/types';
+import { createLevelState, FIXED_STEP_MS, step } from '../src/game/engine';
+import { createReplayRecorder } from '../src/game/replay';
+import { createPlayerResults } from '../src/players';
+import { clearSavedRun, loadSavedRun, SavedRun, saveRun } from '../src/savegame';
+
+// The save slot lives in localStorage; an in-memory stand-in is enough here
+const storage = new Map<string, string>();
+(globalThis as any).window = {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  },
+};
+
+beforeEach(() => storage.clear());
+
+const makeRun = (players: PlayerMode = 'solo'): SavedRun => {
+  const setup = { level: 8, width: GAME_CONFIG.WORLD_WIDTH, height: GAME_CONFIG.WORLD_HEIGHT, seed: 77, players };
+  const recorder = createReplayRecorder(77);
+  recorder.beginLevel(setup);
+  const state = createLevelState(setup);
+  for (let n = 0; n < 300; n++) step(state, FIXED_STEP_MS);
+  return {
+    gameVersion: GAME_VERSION,
+    savedAt: new Date(0).toISOString(),
+    state,
+    level: 8,
+    score: 0,
+    levelStartScore: 0,
+    levelScore: 0,
+    runTicks: 0,
+    runSeed: 77,
+    mode: 'campaign',
+    dailyScored: false,
+    loadout: { upgrades: {} },
+    citiesLost: 0,
+    playerResults: createPlayerResults(),
+    levelStartPlayerResults: createPlayerResults(),
+    replay: recorder.finish(0),
+  };
+};
+
+// Save a copy of a run after `tamper` has had a go at it
+const saveTampered = (tamper: (run: any) => void, players?: PlayerMode) => {
+  const run = JSON.parse(JSON.stringify(makeRun(players)));
+  tamper(run);
+  saveRun(run);
+};
+
+test('a saved level loads back and plays on exactly as the original', () => {
+  const original = makeRun();
+  saveRun(original);
+  const loaded = loadSavedRun();
+  assert.ok(loaded);
+  for (let n = 0; n < 600; n++) {
+    step(original.state, FIXED_STEP_MS);
+    step(loaded.state, FIXED_STEP_MS);
+  }
+  assert.deepEqual(loaded.state, original.state);
+});
+
+test('co-op and versus saves load', () => {
+  (['coop', 'versus'] as const).forEach(players => {
+    saveTampered(() => {}, players);
+    assert.equal(loadSavedRun()?.state.players, players);
+  });
+});
+
+test('a versus save may not smuggle in a wave script', () => {
+  saveTampered(run => { run.state.waves = [{ at: 0, count: 50 }]; }, 'versus');
+  assert.equal(loadSavedRun(), null);
+});
+
+test('corrupt or outdated saves are rejected and cleared', () => {
+  const cases: [string, (run: any) => void][] = [
+    ['other build', run => { run.gameVersion = '0.0.0-old'; }],
+    ['finished level', run => { run.state.outcome = 'lost'; }],
+    ['mode mismatch', run => { run.mode = 'daily'; }],
+    ['unknown difficulty', run => { run.state.difficulty = 'brutal'; }],
+    ['prototype difficulty', run => { run.state.difficulty = 'toString'; }],
+    ['unknown rocket kind', run => { run.state.rockets[0].kind = 'nuke'; }],
+    ['prototype rocket kind', run => { run.state.rockets[0].kind = 'constructor'; }],
+    ['null wave', run => { run.state.waves = [null]; }],
+    ['invalid wave', run => { run.state.waves[0].count = -3; }],
+    ['missing cities', run => { run.state.cities.pop(); }],
+    ['spawn past the waves', run => { run.state.spawnQueue[0].wave = 999; }],
+    ['unknown player mode', run => { run.state.players = 'trio'; }],
+    ['missing player results', run => { delete run.playerResults; }],
+    ['broken replay', run => { run.replay.version = -1; }],
+  ];
+  cases.forEach(([name, tamper]) => {
+    saveTampered(tamper);
+    assert.equal(loadSavedRun(), null, name);
+    assert.equal(storage.size, 0, `${name} left the slot behind`);
+  });
+});
+
+test('clearing the slot removes the save', () => {
+  saveRun(makeRun());
+  clearSavedRun();
+  assert.equal(loadSavedRun(), null);
+});
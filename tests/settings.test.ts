@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { defaultSettings, loadSettings, saveSettings, Settings } from '../src/settings';
+
+// Settings live in localStorage; an in-memory stand-in is enough here
+const storage = new Map<string, string>();
+(globalThis as any).window = {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  },
+};
+
+beforeEach(() => storage.clear());
+
+test('saved settings load back', () => {
+  const settings: Settings = { ...defaultSettings(), fireMode: 'mostAmmo', quality: 'low', briefings: false };
+  saveSettings(settings);
+  assert.deepEqual(loadSettings(), settings);
+});
+
+test('settings with an unknown value fall back to the defaults', () => {
+  const cases: [string, (s: any) => void][] = [
+    ['unknown fire mode', s => { s.fireMode = 'rapid'; }],
+    ['unknown quality', s => { s.quality = 'ultra'; }],
+    ['prototype locale', s => { s.locale = 'constructor'; }],
+    ['prototype palette', s => { s.accessibility.palette = 'toString'; }],
+    ['unknown motion', s => { s.accessibility.motion = 'jittery'; }],
+    ['non-boolean high contrast', s => { s.accessibility.highContrast = 'yes'; }],
+    ['missing accessibility', s => { delete s.accessibility; }],
+    ['unknown difficulty', s => { s.difficulty = 'brutal'; }],
+    ['prototype difficulty', s => { s.difficulty = 'toString'; }],
+  ];
+  cases.forEach(([name, tamper]) => {
+    const settings: any = { ...defaultSettings(), fireMode: 'manual' };
+    tamper(settings);
+    saveSettings(settings);
+    assert.deepEqual(loadSettings(), defaultSettings(), name);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GAME_CONFIG } from '../src/types';
+import {
+  generateWaves,
+  getLevelWaves,
+  getRocketsForLevel,
+  parseWaveScript,
+  validateWaves,
+  WAVE_SCRIPT_VERSION,
+  WaveScriptError,
+} from '../src/game/waves';
+import waveData from '../src/data/waves.json';
+
+test('the bundled wave script is valid', () => {
+  const script = parseWaveScript(waveData);
+  assert.equal(script.version, WAVE_SCRIPT_VERSION);
+  for (let level = 1; level <= GAME_CONFIG.TOTAL_LEVELS; level++) {
+    assert.deepEqual(validateWaves(getLevelWaves(level), `level ${level}`), []);
+  }
+});
+
+test('generated waves keep the original rocket count per level', () => {
+  [1, 37, GAME_CONFIG.TOTAL_LEVELS].forEach(level => {
+    const waves = generateWaves(level);
+    assert.deepEqual(validateWaves(waves, `level ${level}`), []);
+    assert.equal(waves.reduce((sum, w) => sum + w.count, 0), getRocketsForLevel(level));
+  });
+});
+
+test('a script with the wrong version or bad levels is rejected with every problem listed', () => {
+  assert.throws(() => parseWaveScript({ version: 99, levels: {} }), WaveScriptError);
+  assert.throws(
+    () => parseWaveScript({
+      version: WAVE_SCRIPT_VERSION,
+      levels: { 0: [{ at: 0, count: 1 }], 2: [{ at: -1, count: 0 }] },
+    }),
+    (err: WaveScriptError) => {
+      assert.equal(err.problems.length, 3);
+      assert.match(err.problems[0], /^levels\.0:/);
+      return true;
+    },
+  );
+});
+
+test('wave entries are checked field by field', () => {
+  assert.deepEqual(validateWaves([{ at: 0, count: 3, interval: 1, kind: 'dart', target: { city: 2 } }], 'w'), []);
+  const problems = (entry: object) => validateWaves([entry], 'w');
+  assert.match(problems({ at: 0, count: 1, kind: 'nuke' })[0], /unknown rocket kind/);
+  assert.match(problems({ at: 0, count: 1, kind: 'toString' })[0], /unknown rocket kind/);
+  assert.match(problems({ at: 0, count: 1, target: { city: GAME_CONFIG.CITY_COUNT } })[0], /target/);
+  assert.match(problems({ at: 50, count: 20, interval: 1 })[0], /after the/);
+  assert.match(problems({ at: 0, count: 1, colour: 'red' })[0], /unknown field/);
+  assert.match(validateWaves([null], 'w')[0], /must be an object/);
+  assert.match(validateWaves([], 'w')[0], /non-empty/);
+});
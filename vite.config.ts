@@ -8,7 +8,8 @@ export default defineConfig(({mode}) => {
   return {
     plugins: [react(), tailwindcss()],
     define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || ''),
+      'process.env.LEADERBOARD_URL': JSON.stringify(env.LEADERBOARD_URL || ''),
     },
     resolve: {
       alias: {
@@ -19,6 +20,10 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // Local leaderboard server (npm run server)
+      proxy: {
+        '/api': `http://localhost:${env.LEADERBOARD_PORT || 8787}`,
+      },
     },
   };
 });